@@ -59,4 +59,11 @@ config.sentry ={
 
 config.metrics = {};
 
+config.duplicates = {
+    maxPhashDistance: 2
+};
+
+// imgur, namemc, skindex, novaskin, github, discord, planetminecraft - all if not set
+// config.urlResolvers = ["imgur", "namemc"];
+
 module.exports = config;
@@ -6,10 +6,15 @@ import { IAccountDocument } from "../../typings";
 import { AccountType, IAccountModel } from "../../typings/db/IAccountDocument";
 import { debug, error, warn } from "../../util/colors";
 import { Bread } from "../../typings/Bread";
-import { Caching } from "../../generator/Caching";
 import { MineSkinMetrics } from "../../util/metrics";
 import * as Sentry from "@sentry/node";
 import { MIN_ACCOUNT_DELAY } from "../../generator/Generator";
+import { getHealthScore, weightedRandomIndex } from "../../util/accountHealth";
+
+// how long a selected account can't be selected by any server
+const ACCOUNT_LOCK_DURATION = 60;
+// number of accounts the weighted selection picks from
+const SELECTION_CANDIDATES = 10;
 
 const Int32 = require("mongoose-int32");
 export const AccountSchema: Schema<IAccountDocument, IAccountModel> = new Schema({
@@ -52,6 +57,9 @@ export const AccountSchema: Schema<IAccountDocument, IAccountModel> = new Schema
         index: true
     },
     lastSelected: Number,
+    lockOwner: String,
+    lockExpiresAt: Number,
+    lastTokenRefresh: Number,
     timeAdded: {
         type: Number,
         index: true
@@ -70,6 +78,11 @@ export const AccountSchema: Schema<IAccountDocument, IAccountModel> = new Schema
     totalSuccessCounter: Number,
     lastGenerateSuccess: Number,
     lastErrorCode: String,
+    recentErrors: [{
+        _id: false,
+        code: String,
+        time: Number
+    }],
     forcedTimeoutAt: Number,
     lastTextureUrl: String,
     sameTextureCounter: Number,
@@ -144,10 +157,7 @@ AccountSchema.methods.toSimplifiedString = function (this: IAccountDocument): st
 };
 
 AccountSchema.methods.getEV = function (this: IAccountDocument): number {
-    if (this.ev) {
-        return this.ev;
-    }
-    this.ev = 0;
+    this.ev = getHealthScore(this);
     return this.ev;
 };
 
@@ -156,9 +166,8 @@ AccountSchema.methods.getEV = function (this: IAccountDocument): number {
 AccountSchema.statics.findUsable = async function (this: IAccountModel, bread?: Bread): Promise<Maybe<IAccountDocument>> {
     const time = Math.floor(Date.now() / 1000);
     const metrics = await MineSkinMetrics.get();
-    return this.findOne({
+    const usableFilter = {
         enabled: true,
-        id: { $nin: Caching.getLockedAccounts() },
         $and: [
             {
                 $or: [
@@ -184,62 +193,210 @@ AccountSchema.statics.findUsable = async function (this: IAccountModel, bread?:
                     { forcedTimeoutAt: { $exists: false } },
                     { forcedTimeoutAt: { $lt: (time - 500) } }
                 ]
+            },
+            {
+                $or: [
+                    { lockExpiresAt: { $exists: false } },
+                    { lockExpiresAt: { $lt: time } }
+                ]
             }
         ],
         errorCounter: { $lt: (metrics.config.errorThreshold || 10) },
         timeAdded: { $lt: (time - 60) }
-    }).sort({
-        lastUsed: 1,
-        lastSelected: 1,
-        sameTextureCounter: 1
-    } as IAccountDocument).exec()
-        .then((account: IAccountDocument) => {
-            if (!account) {
-                console.warn(error(bread?.breadcrumb + " There are no accounts available!"));
-                return undefined;
+    };
+    const selection = {
+        lastSelected: time,
+        lockOwner: metrics.config.server,
+        lockExpiresAt: time + ACCOUNT_LOCK_DURATION
+    };
+
+    let account: Maybe<IAccountDocument> = undefined;
+    // candidates that got selected by another request in the meantime
+    const tried: any[] = [];
+    while (!account) {
+        // the accounts that have been waiting the longest, picked randomly weighted by their health
+        const candidates = await this.find({
+            ...usableFilter,
+            _id: { $nin: tried }
+        }).sort({
+            lastUsed: 1,
+            lastSelected: 1,
+            sameTextureCounter: 1
+        }).limit(SELECTION_CANDIDATES).exec();
+        if (candidates.length <= 0) {
+            break;
+        }
+        while (!account && candidates.length > 0) {
+            const index = weightedRandomIndex(candidates.map(a => getHealthScore(a, time)));
+            const candidate = candidates.splice(index, 1)[0];
+            tried.push(candidate._id);
+            // lock in a single update, so other servers can't select the same account in the meantime.
+            // returns the document from before the update, to log when it was last selected
+            const claimed = await this.findOneAndUpdate({
+                ...usableFilter,
+                _id: candidate._id
+            }, {
+                $set: selection
+            }).exec();
+            if (claimed) {
+                account = claimed;
+            } else {
+                console.warn(warn(bread?.breadcrumb + " Account #" + candidate.id + " got selected by another request, trying the next one"));
             }
-            if (Caching.isAccountLocked(account.id)) {
-                console.warn(warn(bread?.breadcrumb + " Selecting a different account since " + account.id + " got locked since querying"));
-                return Account.findUsable(bread);
+        }
+    }
+    if (!account) {
+        console.warn(error(bread?.breadcrumb + " There are no accounts available!"));
+        return undefined;
+    }
+
+    let usedDiff = Math.round(time - (account.lastUsed || 0));
+    let selectedDiff = Math.round(time - (account.lastSelected || 0));
+    console.log(debug(bread?.breadcrumb + " Account #" + account.id + " last used " + usedDiff + "s ago, last selected " + selectedDiff + "s ago"));
+    Sentry.setExtras({
+        "used_diff": usedDiff,
+        "selected_diff": selectedDiff
+    });
+    let usedDiffMins = Math.round(usedDiff / 60 / 2) * 2;
+    Sentry.setTag("used_diff_mins", `${ usedDiffMins }`);
+    const health = account.getEV();
+    try {
+        metrics.metrics!.influx.writePoints([{
+            measurement: 'account_selection_difference',
+            tags: {
+                server: metrics.config.server,
+                account: account.id
+            },
+            fields: {
+                lastSelected: selectedDiff,
+                lastUsed: usedDiff,
+                health: health
             }
-            Caching.lockSelectedAccount(account.id, bread);
+        }], {
+            database: 'mineskin'
+        })
+    } catch (e) {
+        Sentry.captureException(e);
+    }
 
-            let usedDiff = Math.round(time - (account.lastUsed || 0));
-            let selectedDiff = Math.round(time - (account.lastSelected || 0));
-            console.log(debug(bread?.breadcrumb + " Account #" + account.id + " last used " + usedDiff + "s ago, last selected " + selectedDiff + "s ago"));
-            Sentry.setExtras({
-                "used_diff": usedDiff,
-                "selected_diff": selectedDiff
-            });
-            let usedDiffMins = Math.round(usedDiff / 60 / 2) * 2;
-            Sentry.setTag("used_diff_mins", `${ usedDiffMins }`);
-            try {
-                metrics.metrics!.influx.writePoints([{
-                    measurement: 'account_selection_difference',
-                    tags: {
-                        server: metrics.config.server,
-                        account: account.id
-                    },
-                    fields: {
-                        lastSelected: selectedDiff,
-                        lastUsed: usedDiff
-                    }
-                }], {
-                    database: 'mineskin'
-                })
-            } catch (e) {
-                Sentry.captureException(e);
+    account.set(selection);
+    if (!account.successCounter) account.successCounter = 0;
+    if (!account.errorCounter) account.errorCounter = 0;
+    if (!account.totalSuccessCounter) account.totalSuccessCounter = 0;
+    if (!account.totalErrorCounter) account.totalErrorCounter = 0;
+    return account.save();
+};
+
+AccountSchema.statics.claimExpiringToken = function (this: IAccountModel, server: string, expiresBefore: number, refreshedBefore: number, idleSince: number): Promise<IAccountDocument | null> {
+    const time = Math.floor(Date.now() / 1000);
+    return this.findOneAndUpdate({
+        enabled: true,
+        // shared accounts too, this server would otherwise refresh them during a request
+        requestServer: { $in: [server, "default", null] },
+        accessToken: { $exists: true, $ne: "" },
+        // expired tokens are left to the login when the account is used next
+        accessTokenExpiration: { $gt: time, $lt: expiresBefore },
+        $and: [
+            {
+                $or: [
+                    { lastTokenRefresh: { $exists: false } },
+                    { lastTokenRefresh: { $lt: refreshedBefore } }
+                ]
+            },
+            // generate requests can still be running after their lock expired
+            {
+                $or: [
+                    { lastSelected: { $exists: false } },
+                    { lastSelected: { $lt: idleSince } }
+                ]
+            },
+            {
+                $or: [
+                    { lastUsed: { $exists: false } },
+                    { lastUsed: { $lt: idleSince } }
+                ]
+            },
+            {
+                $or: [
+                    { lockExpiresAt: { $exists: false } },
+                    { lockExpiresAt: { $lt: time } }
+                ]
             }
+        ]
+    }, {
+        $set: {
+            lastTokenRefresh: time,
+            lockOwner: server,
+            lockExpiresAt: time + ACCOUNT_LOCK_DURATION
+        }
+    }, {
+        sort: { accessTokenExpiration: 1 },
+        new: true
+    }).exec();
+};
 
-            account.lastSelected = time;
-            if (!account.successCounter) account.successCounter = 0;
-            if (!account.errorCounter) account.errorCounter = 0;
-            if (!account.totalSuccessCounter) account.totalSuccessCounter = 0;
-            if (!account.totalErrorCounter) account.totalErrorCounter = 0;
-            return account.save();
-        })
+AccountSchema.statics.releaseLock = function (this: IAccountModel, account: IAccountDocument): Promise<any> {
+    // only if it's still the same lock, it might have expired & been claimed by someone else
+    return this.updateOne({
+        _id: account._id,
+        lockOwner: account.lockOwner,
+        lockExpiresAt: account.lockExpiresAt
+    }, {
+        $unset: {
+            lockOwner: 1,
+            lockExpiresAt: 1
+        }
+    }).exec();
 };
 
+AccountSchema.statics.findIdle = function (this: IAccountModel, server: string, idleSince: number, limit: number): Promise<IAccountDocument[]> {
+    return this.find(idleFilter(server, idleSince)).sort({ lastUsed: 1 }).limit(limit).exec();
+};
+
+AccountSchema.statics.moveIdle = function (this: IAccountModel, account: IAccountDocument, toServer: string, idleSince: number): Promise<IAccountDocument | null> {
+    // check again, the account might have been selected since it was found
+    return this.findOneAndUpdate({
+        ...idleFilter(account.requestServer!, idleSince),
+        _id: account._id
+    }, {
+        $set: {
+            requestServer: toServer,
+            lastRequestServer: account.requestServer!
+        }
+    }, {
+        new: true
+    }).exec();
+};
+
+function idleFilter(server: string, idleSince: number): any {
+    const time = Math.floor(Date.now() / 1000);
+    return {
+        enabled: true,
+        requestServer: server,
+        errorCounter: 0,
+        $and: [
+            {
+                $or: [
+                    { lastUsed: { $exists: false } },
+                    { lastUsed: { $lt: idleSince } }
+                ]
+            },
+            {
+                $or: [
+                    { lastSelected: { $exists: false } },
+                    { lastSelected: { $lt: idleSince } }
+                ]
+            },
+            {
+                $or: [
+                    { lockExpiresAt: { $exists: false } },
+                    { lockExpiresAt: { $lt: time } }
+                ]
+            }
+        ]
+    };
+}
+
 AccountSchema.statics.countGlobalUsable = async function (this: IAccountModel): Promise<number> {
     const time = Math.floor(Date.now() / 1000);
     const config = await getConfig();
@@ -286,6 +443,14 @@ AccountSchema.statics.getAccountsPerServer = function (this: IAccountModel, acco
     });
 }
 
+AccountSchema.statics.getActiveServers = function (this: IAccountModel, activeSince: number): Promise<string[]> {
+    // the lock owner stays set after the lock expired
+    return this.distinct("lockOwner", {
+        lastSelected: { $gt: activeSince },
+        lockOwner: { $exists: true }
+    }).exec();
+}
+
 AccountSchema.statics.getPreferredAccountServer = function (this: IAccountModel, accountType?: string): Promise<Maybe<string>> {
     return this.getAccountsPerServer(accountType).then(accountsPerServer => {
         if (!accountsPerServer || accountsPerServer.length < 1) {
@@ -0,0 +1,43 @@
+import { model, Schema } from "mongoose";
+import { IAdminAuditLogDocument, IAdminAuditLogModel } from "../../typings/db/IAdminAuditLogDocument";
+
+const schema: Schema<IAdminAuditLogDocument, IAdminAuditLogModel> = new Schema(
+    {
+        actor: {
+            type: String,
+            index: true
+        },
+        action: String,
+        account: {
+            type: Number,
+            index: true
+        },
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+        success: Boolean,
+        error: String,
+        ip: String,
+        server: String,
+        time: {
+            type: Date,
+            index: true
+        }
+    },
+    {
+        collection: "adminauditlog"
+    });
+
+/// STATICS
+
+schema.statics.findRecent = function (this: IAdminAuditLogModel, filter: { account?: number, actor?: string }, limit: number): Promise<IAdminAuditLogDocument[]> {
+    const query: any = {};
+    if (typeof filter.account !== "undefined") {
+        query.account = filter.account;
+    }
+    if (filter.actor) {
+        query.actor = filter.actor;
+    }
+    return this.find(query).sort({ time: -1 }).limit(limit).exec();
+};
+
+export const AdminAuditLog: IAdminAuditLogModel = model<IAdminAuditLogDocument, IAdminAuditLogModel>("AdminAuditLog", schema);
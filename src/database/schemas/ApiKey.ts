@@ -30,6 +30,7 @@ const schema: Schema<IApiKeyDocument, IApiKeyModel> = new Schema(
         allowedOrigins: [String],
         allowedIps: [String],
         allowedAgents: [String],
+        webhookUrl: String,
         minDelay: Number
     },
     {
@@ -0,0 +1,93 @@
+import { model, Schema } from "mongoose";
+import { IGenerateJobDocument, IGenerateJobModel, JobStatus } from "../../typings/db/IGenerateJobDocument";
+
+const schema: Schema<IGenerateJobDocument, IGenerateJobModel> = new Schema(
+    {
+        jobId: {
+            type: String,
+            index: true,
+            unique: true
+        },
+        type: String,
+        status: {
+            type: String,
+            enum: ["queued", "running", "completed", "failed"],
+            index: true
+        },
+        server: {
+            type: String,
+            index: true
+        },
+        breadcrumb: String,
+        batchId: {
+            type: String,
+            index: true
+        },
+        index: Number,
+        url: String,
+        user: String,
+        file: Buffer,
+        model: String,
+        variant: String,
+        visibility: Number,
+        name: String,
+        checkOnly: Boolean,
+        normalize: Boolean,
+        upgradeLegacy: Boolean,
+        allowSimilar: Boolean,
+        client: {
+            userAgent: String,
+            origin: String,
+            ip: String,
+            via: String,
+            apiKey: String,
+            apiKeyId: String,
+            callbackUrl: String
+        },
+        createdAt: {
+            type: Date,
+            expires: 86400
+        },
+        scheduledAt: {
+            type: Date,
+            index: true
+        },
+        startedAt: Date,
+        finishedAt: Date,
+        skin: Number,
+        duplicate: Boolean,
+        duplicateSource: String,
+        normalized: [String],
+        errorType: String,
+        errorCode: String,
+        error: String
+    },
+    {
+        collection: "generatejobs"
+    });
+
+/// STATICS
+
+schema.statics.findForJobId = function (this: IGenerateJobModel, jobId: string): Promise<IGenerateJobDocument | null> {
+    return this.findOne({ jobId: jobId }).exec();
+};
+
+schema.statics.findForBatchId = function (this: IGenerateJobModel, batchId: string): Promise<IGenerateJobDocument[]> {
+    return this.find({ batchId: batchId }).sort({ index: 1 }).exec();
+};
+
+schema.statics.claimNext = function (this: IGenerateJobModel, server: string): Promise<IGenerateJobDocument | null> {
+    return this.findOneAndUpdate({
+        server: server,
+        status: JobStatus.QUEUED,
+        scheduledAt: { $lte: new Date() }
+    }, {
+        status: JobStatus.RUNNING,
+        startedAt: new Date()
+    }, {
+        sort: { scheduledAt: 1 },
+        new: true
+    }).exec();
+};
+
+export const GenerateJob: IGenerateJobModel = model<IGenerateJobDocument, IGenerateJobModel>("GenerateJob", schema);
@@ -1,7 +1,8 @@
 import { model, Schema } from "mongoose";
-import { modelToVariant, stripUuid } from "../../util";
+import { modelToVariant, stripUuid, variantToModel } from "../../util";
 import { ISkinDocument } from "../../typings";
-import { ISkinModel, SkinVisibility } from "../../typings/db/ISkinDocument";
+import { ISkinModel, SkinModel, SkinVariant, SkinVisibility } from "../../typings/db/ISkinDocument";
+import { GenerateOptions } from "../../typings/GenerateOptions";
 import { SkinInfo } from "../../typings/SkinInfo";
 import { v4 as randomUuid } from "uuid";
 import { Generator, HASH_VERSION } from "../../generator/Generator";
@@ -21,6 +22,15 @@ export const SkinSchema: Schema<ISkinDocument, ISkinModel> = new Schema({
         type: String,
         index: true
     },
+    phash: String,
+    phashParts: {
+        type: [String],
+        index: true
+    },
+    canonicalHash: {
+        type: String,
+        index: true
+    },
     name: {
         type: String,
         index: 'text'
@@ -56,8 +66,17 @@ export const SkinSchema: Schema<ISkinDocument, ISkinModel> = new Schema({
     minecraftSkinId: String,
     textureHash: String,
     capeUrl: {
-        type: String
+        type: String,
+        index: true
     },
+    signatureHistory: [{
+        _id: false,
+        value: String,
+        signature: String,
+        url: String,
+        minecraftTextureHash: String,
+        time: Number
+    }],
     time: {
         type: Number,
         index: true
@@ -78,6 +97,10 @@ export const SkinSchema: Schema<ISkinDocument, ISkinModel> = new Schema({
     server: String,
     ua: String,
     apiKey: String,
+    apiKeyId: {
+        type: String,
+        index: true
+    },
     apiVer: String,
     testerRequest: Boolean,
     testerMismatchCounter: Number,
@@ -150,6 +173,22 @@ SkinSchema.statics.findForUuid = function ( uuid: string): Promise<ISkinDocument
     return Skin.findOne({ skinUuid: uuid }).read("secondaryPreferred").exec();
 };
 
+SkinSchema.statics.findForHash = function (hash: string, variant: SkinVariant): Promise<ISkinDocument | null> {
+    const query = Generator.appendOptionsToDuplicateQuery(<GenerateOptions>{
+        model: variant === SkinVariant.UNKNOWN ? SkinModel.UNKNOWN : variantToModel(variant),
+        variant: variant
+    }, { hash: hash });
+    return Skin.findOne(query).read("secondaryPreferred").exec();
+};
+
+SkinSchema.statics.findForTextureHash = function (textureHash: string, variant: SkinVariant): Promise<ISkinDocument | null> {
+    const query = Generator.appendOptionsToDuplicateQuery(<GenerateOptions>{
+        model: variant === SkinVariant.UNKNOWN ? SkinModel.UNKNOWN : variantToModel(variant),
+        variant: variant
+    }, { minecraftTextureHash: textureHash });
+    return Skin.findOne(query).read("secondaryPreferred").exec();
+};
+
 SkinSchema.statics.attachTesterResult = function ( id: number, server: string, mismatchCount: number): Promise<ISkinDocument | null> {
     return Skin.findOneAndUpdate({ id: id, server: server }, { testerRequest: true, testerMismatchCounter: mismatchCount }).exec();
 };
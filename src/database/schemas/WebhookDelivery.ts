@@ -0,0 +1,78 @@
+import { model, Schema } from "mongoose";
+import { DeliveryStatus, IWebhookDeliveryDocument, IWebhookDeliveryModel } from "../../typings/db/IWebhookDeliveryDocument";
+
+const schema: Schema<IWebhookDeliveryDocument, IWebhookDeliveryModel> = new Schema(
+    {
+        deliveryId: {
+            type: String,
+            index: true,
+            unique: true
+        },
+        apiKey: {
+            type: String,
+            index: true
+        },
+        server: String,
+        url: String,
+        event: String,
+        payload: String,
+        status: {
+            type: String,
+            enum: ["pending", "delivered", "failed"],
+            index: true
+        },
+        attempts: {
+            type: Number,
+            default: 0
+        },
+        createdAt: {
+            type: Date,
+            expires: 604800 // 7 days
+        },
+        nextAttemptAt: {
+            type: Date,
+            index: true
+        },
+        lastAttemptAt: Date,
+        deliveredAt: Date,
+        lastStatusCode: Number,
+        lastError: String
+    },
+    {
+        collection: "webhookdeliveries"
+    });
+
+/// STATICS
+
+schema.statics.findForApiKey = function (this: IWebhookDeliveryModel, apiKey: string, limit: number): Promise<IWebhookDeliveryDocument[]> {
+    return this.find({ apiKey: apiKey }).sort({ createdAt: -1 }).limit(limit).exec();
+};
+
+schema.statics.findDue = function (this: IWebhookDeliveryModel, server: string, limit: number): Promise<IWebhookDeliveryDocument[]> {
+    return this.find({
+        server: server,
+        status: DeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: new Date() }
+    }).sort({ nextAttemptAt: 1 }).limit(limit).exec();
+};
+
+/**
+ * Counts the next attempt of the delivery, if nobody else has done that since it was loaded
+ */
+schema.statics.claimAttempt = function (this: IWebhookDeliveryModel, delivery: IWebhookDeliveryDocument, nextAttemptAt: Date): Promise<IWebhookDeliveryDocument | null> {
+    return this.findOneAndUpdate({
+        _id: delivery._id,
+        status: DeliveryStatus.PENDING,
+        attempts: delivery.attempts
+    }, {
+        $inc: { attempts: 1 },
+        $set: {
+            lastAttemptAt: new Date(),
+            nextAttemptAt: nextAttemptAt
+        }
+    }, {
+        new: true
+    }).exec();
+};
+
+export const WebhookDelivery: IWebhookDeliveryModel = model<IWebhookDeliveryDocument, IWebhookDeliveryModel>("WebhookDelivery", schema);
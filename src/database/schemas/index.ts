@@ -2,3 +2,6 @@ export * from "./Account";
 export * from "./Skin";
 export * from "./Stat";
 export * from "./Traffic";
+export * from "./GenerateJob";
+export * from "./WebhookDelivery";
+export * from "./AdminAuditLog";
@@ -0,0 +1,146 @@
+import * as Sentry from "@sentry/node";
+import { Account, AdminAuditLog } from "../database/schemas";
+import { AdminAction } from "../typings/db/IAdminAuditLogDocument";
+import { getConfig } from "../typings/Configs";
+import { Maybe } from "../util";
+import { debug, info } from "../util/colors";
+import { getHealthScore } from "../util/accountHealth";
+import { Generator } from "./Generator";
+
+const PROCESS_INTERVAL = 10 * 60 * 1000; // 10 minutes
+const MAX_MOVES_PER_RUN = 5;
+
+// accounts used or selected more recently than this are left alone
+const IDLE_TIME = 30 * 60; // 30 minutes
+const MIN_HEALTH = 0.7;
+// share of busy accounts the busiest server needs to have above the least busy one
+const MIN_DEMAND_DIFFERENCE = 0.3;
+// servers keep at least this many accounts
+const MIN_SERVER_ACCOUNTS = 3;
+// servers that selected an account within this time count as running, even without accounts of their own
+const ACTIVE_TIME = 60 * 60; // 1 hour
+
+// accounts that any server can use
+const SHARED_SERVER = "default";
+
+interface ServerDemand {
+    server: string;
+    /** Enabled accounts with less than 10 errors **/
+    accounts: number;
+    /** Share of the server's accounts that can't be used right now, 0-1 **/
+    demand: number;
+}
+
+/**
+ * Moves idle, healthy accounts from servers that don't need them to the busiest server.
+ * Only runs on the master server.
+ */
+export class AccountRebalancer {
+
+    protected static processing = false;
+    protected static processTimer: Maybe<NodeJS.Timeout>;
+
+    static async start(): Promise<void> {
+        this.processTimer = setInterval(() => AccountRebalancer.rebalance(), PROCESS_INTERVAL);
+    }
+
+    protected static async rebalance(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+        try {
+            const servers = await this.getServerDemand();
+            if (servers.length < 2) {
+                return;
+            }
+            // sorted from least to most busy
+            const from = servers[0];
+            const to = servers[servers.length - 1];
+            if (to.demand - from.demand < MIN_DEMAND_DIFFERENCE) {
+                return;
+            }
+            const moves = Math.min(MAX_MOVES_PER_RUN, from.accounts - MIN_SERVER_ACCOUNTS);
+            if (moves <= 0) {
+                return;
+            }
+            console.log(debug(`[Rebalancer] ${ from.server } (${ from.accounts } accounts, ${ Math.round(from.demand * 100) }% busy) -> ${ to.server } (${ to.accounts } accounts, ${ Math.round(to.demand * 100) }% busy)`));
+            await this.moveAccounts(from.server, to.server, moves);
+        } catch (e) {
+            Sentry.captureException(e);
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    protected static async getServerDemand(): Promise<ServerDemand[]> {
+        const accountsPerServer = await Account.getAccountsPerServer();
+        const shared = accountsPerServer.find(s => s.server === SHARED_SERVER)?.count || 0;
+        const servers: ServerDemand[] = [];
+        for (const { server, count } of accountsPerServer) {
+            if (!server || server === SHARED_SERVER) {
+                continue;
+            }
+            // the usable count includes the shared accounts
+            const stats = await Generator.queryAccountStats(server);
+            servers.push({
+                server: server,
+                accounts: count,
+                demand: Math.max(0, 1 - (stats.useableAccounts || 0) / Math.max(1, count + shared))
+            });
+        }
+        // servers without accounts don't show up above, but need them the most
+        const activeServers = await Account.getActiveServers(Math.floor(Date.now() / 1000) - ACTIVE_TIME);
+        for (const server of activeServers) {
+            if (!server || server === SHARED_SERVER || servers.some(s => s.server === server)) {
+                continue;
+            }
+            servers.push({
+                server: server,
+                accounts: 0,
+                demand: 1
+            });
+        }
+        return servers.sort((a, b) => a.demand - b.demand);
+    }
+
+    protected static async moveAccounts(fromServer: string, toServer: string, limit: number): Promise<void> {
+        const config = await getConfig();
+        const time = Math.floor(Date.now() / 1000);
+        const idleSince = time - IDLE_TIME;
+        const candidates = await Account.findIdle(fromServer, idleSince, limit * 4);
+        let moved = 0;
+        for (const candidate of candidates) {
+            if (moved >= limit) {
+                break;
+            }
+            if (getHealthScore(candidate, time) < MIN_HEALTH) {
+                continue;
+            }
+            const account = await Account.moveIdle(candidate, toServer, idleSince);
+            if (!account) {
+                // used in the meantime
+                continue;
+            }
+            moved++;
+            console.log(info(`[Rebalancer] Moved ${ account.toSimplifiedString() } from ${ fromServer } to ${ toServer }`));
+            await AdminAuditLog.create({
+                actor: "rebalancer",
+                action: AdminAction.MOVE,
+                account: account.id,
+                before: { requestServer: fromServer },
+                after: { requestServer: toServer },
+                success: true,
+                server: config.server,
+                time: new Date()
+            });
+        }
+    }
+
+    static end() {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+}
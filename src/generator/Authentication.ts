@@ -22,6 +22,9 @@ const ACCESS_TOKEN_EXPIRATION_THRESHOLD = 20 * 60;
 
 const XSTSRelyingParty = 'rp://api.minecraftservices.com/'
 
+// device code errors that just mean the user isn't done yet
+const DEVICE_CODE_PENDING_ERRORS = ["authorization_pending", "slow_down"];
+
 export class Mojang {
 
     public static async authenticate(account: IAccountDocument, bread?: Bread): Promise<IAccountDocument> {
@@ -301,6 +304,10 @@ export class Microsoft {
         }
 
         if (!account.accessToken) { // Needs login
+            if (!account.passwordNew) {
+                // added via device code, the refresh token is all there is
+                return await Microsoft.refreshAccessToken(account, bread);
+            }
             return await Microsoft.login(account, bread);
         }
 
@@ -335,11 +342,9 @@ export class Microsoft {
         }
 
         console.log(debug(bread?.breadcrumb + " [Auth] Logging in " + account.toSimplifiedString()));
-        const minecraftAccessToken = await Microsoft.loginWithEmailAndPassword(account.getEmail(), await Encryption.decrypt(account.passwordNew), xboxInfo => {
-            account.microsoftAccessToken = xboxInfo.accessToken;
-            account.microsoftRefreshToken = xboxInfo.refreshToken;
-            account.microsoftUserId = xboxInfo.userId;
-            account.minecraftXboxUsername = xboxInfo.username;
+        let xboxInfo: Maybe<XboxInfo> = undefined;
+        const minecraftAccessToken = await Microsoft.loginWithEmailAndPassword(account.getEmail(), await Encryption.decrypt(account.passwordNew), info => {
+            xboxInfo = info;
         }).catch(err => {
             if (err.response || err.name === "XboxReplayError") {
                 throw new AuthenticationError(AuthError.MICROSOFT_AUTH_FAILED, "Failed to login", account, err);
@@ -350,6 +355,9 @@ export class Microsoft {
         if (!ownsMinecraft) {
             throw new AuthenticationError(AuthError.DOES_NOT_OWN_MINECRAFT, "User does not own minecraft", account);
         }
+        if (xboxInfo) {
+            await Microsoft.storeXboxInfo(account, xboxInfo);
+        }
 
         console.log(debug(bread?.breadcrumb + " [Auth] Got new access token for " + account.toSimplifiedString()));
         account.accessToken = minecraftAccessToken;
@@ -366,7 +374,7 @@ export class Microsoft {
             return await Microsoft.refreshAccessToken(account, bread);
         } catch (e) {
             if (e instanceof AuthenticationError) {
-                if (e.code === AuthError.MICROSOFT_REFRESH_FAILED) {
+                if (e.code === AuthError.MICROSOFT_REFRESH_FAILED && account.passwordNew) {
                     // Couldn't refresh, attempt to login
                     return await Microsoft.login(account, bread);
                 }
@@ -385,10 +393,9 @@ export class Microsoft {
         }
 
         console.log(debug(bread?.breadcrumb + " [Auth] Refreshing " + account.toSimplifiedString()));
-        const newMinecraftAccessToken = await Microsoft.refreshXboxAccessToken(account.microsoftRefreshToken, xboxInfo => {
-            account.microsoftAccessToken = xboxInfo.accessToken;
-            account.microsoftRefreshToken = xboxInfo.refreshToken;
-            account.minecraftXboxUsername = xboxInfo.username;
+        let xboxInfo: Maybe<XboxInfo> = undefined;
+        const newMinecraftAccessToken = await Microsoft.refreshXboxAccessToken((await Encryption.decryptToken(account.microsoftRefreshToken))!, info => {
+            xboxInfo = info;
         }).catch(err => {
             if (err.response || err.name === "XboxReplayError") {
                 console.warn(err);
@@ -397,6 +404,9 @@ export class Microsoft {
             }
             throw err;
         })
+        if (xboxInfo) {
+            await Microsoft.storeXboxInfo(account, xboxInfo);
+        }
         console.log(debug(bread?.breadcrumb + " [Auth] Refreshed access token for " + account.toSimplifiedString()));
         account.accessToken = newMinecraftAccessToken;
         account.accessTokenExpiration = Math.round(Date.now() / 1000) + ACCESS_TOKEN_EXPIRATION_MICROSOFT;
@@ -407,7 +417,91 @@ export class Microsoft {
         return await account.save();
     }
 
+    /**
+     * Updates the account's microsoft tokens & info, tokens are stored encrypted
+     */
+    static async storeXboxInfo(account: IAccountDocument, xboxInfo: XboxInfo): Promise<void> {
+        if (xboxInfo.accessToken) {
+            account.microsoftAccessToken = await Encryption.encryptToken(xboxInfo.accessToken);
+        }
+        if (xboxInfo.refreshToken) {
+            account.microsoftRefreshToken = await Encryption.encryptToken(xboxInfo.refreshToken);
+        }
+        if (xboxInfo.userId) {
+            account.microsoftUserId = xboxInfo.userId;
+        }
+        if (xboxInfo.username) {
+            account.minecraftXboxUsername = xboxInfo.username;
+        }
+    }
+
     // based on https://github.com/PrismarineJS/node-minecraft-protocol/blob/master/src/client/microsoftAuth.js
+    /**
+     * Starts a device code login, the user has to enter the returned code at the verification url
+     */
+    static async startDeviceCodeLogin(): Promise<DeviceCodeInfo> {
+        const form = {
+            "client_id": /*"00000000402b5328"*/"000000004C12AE6F",
+            "scope": "service::user.auth.xboxlive.com::MBI_SSL",
+            "response_type": "device_code"
+        };
+        const response = await Requests.liveLoginRequest({
+            method: "POST",
+            url: "/oauth20_connect.srf",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                "Accept": "application/json"
+            },
+            data: qs.stringify(form)
+        }).catch(err => {
+            if (err.response) {
+                throw new AuthenticationError(AuthError.MICROSOFT_AUTH_FAILED, "Failed to start device code login", undefined, err);
+            }
+            throw err;
+        });
+        const body = response.data;
+        return {
+            deviceCode: body["device_code"],
+            userCode: body["user_code"],
+            verificationUri: body["verification_uri"],
+            expiresIn: body["expires_in"],
+            interval: body["interval"]
+        };
+    }
+
+    /**
+     * Checks if the user completed the device code login
+     * @return the minecraft access token, or undefined if the user hasn't entered the code yet
+     */
+    static async pollDeviceCodeLogin(deviceCode: string, xboxInfoConsumer?: (info: XboxInfo) => void): Promise<Maybe<string>> {
+        const form = {
+            "client_id": /*"00000000402b5328"*/"000000004C12AE6F",
+            "device_code": deviceCode,
+            "grant_type": "urn:ietf:params:oauth:grant-type:device_code"
+        };
+        let tokenResponse: Maybe<AxiosResponse> = undefined;
+        try {
+            tokenResponse = await Requests.liveLoginRequest({
+                method: "POST",
+                url: "/oauth20_token.srf",
+                headers: {
+                    "Content-Type": "application/x-www-form-urlencoded",
+                    "Accept": "application/json"
+                },
+                data: qs.stringify(form)
+            });
+        } catch (err) {
+            if (err.response) {
+                if (DEVICE_CODE_PENDING_ERRORS.includes(err.response.data?.error)) {
+                    return undefined;
+                }
+                throw new AuthenticationError(AuthError.MICROSOFT_AUTH_FAILED, "Device code login failed: " + (err.response.data?.error ?? err.response.status), undefined, err);
+            }
+            throw err;
+        }
+        return await Microsoft.authenticateXboxWithTokenResponse(tokenResponse!.data, xboxInfoConsumer);
+    }
+
     static async loginWithEmailAndPassword(email: string, password: string, xboxInfoConsumer?: (info: XboxInfo) => void): Promise<string> {
         // https://login.live.com/oauth20_authorize.srf
         const preAuthResponse = await XboxLiveAuth.preAuth();
@@ -521,13 +615,16 @@ export class Microsoft {
             },
             data: qs.stringify(form)
         });
-        const refreshBody = refreshResponse.data;
-        console.log("refreshBody");
-        console.log(JSON.stringify(refreshBody))
+        return await Microsoft.authenticateXboxWithTokenResponse(refreshResponse.data, xboxInfoConsumer);
+    }
 
+    /**
+     * Logs into minecraft using the response of the live.com token endpoint
+     */
+    static async authenticateXboxWithTokenResponse(tokenBody: any, xboxInfoConsumer?: (info: XboxInfo) => void): Promise<string> {
         // Microsoft/Xbox accessToken
-        const xboxAccessToken = refreshBody["access_token"];
-        const xboxRefreshToken = refreshBody["refresh_token"];
+        const xboxAccessToken = tokenBody["access_token"];
+        const xboxRefreshToken = tokenBody["refresh_token"];
 
         const identityResponse = await Microsoft.exchangeRpsTicketForIdentity(xboxAccessToken);
 
@@ -539,6 +636,7 @@ export class Microsoft {
                 xboxInfoConsumer({
                     accessToken: xboxAccessToken,
                     refreshToken: xboxRefreshToken,
+                    userId: tokenBody["user_id"],
                     username: minecraftXboxUsername
                 });
             } catch (e) {
@@ -585,6 +683,10 @@ export class Authentication {
                 if (e.code === AuthError.MICROSOFT_AUTH_FAILED || e.code === AuthError.MOJANG_AUTH_FAILED) {
                     Notifications.notifyLoginFailed(account, e);
                 }
+                if (e.code === AuthError.MICROSOFT_REFRESH_FAILED && !account.passwordNew) {
+                    // no password to fall back to, the owner has to link the account again
+                    Notifications.notifyLoginFailed(account, e);
+                }
                 if (e.details && e.details.response) {
                     if (e.details.response.status >= 400 && e.details.response.status <= 403) {
                         if (account.passwordNew) {
@@ -648,6 +750,16 @@ export interface XboxInfo {
     username?: string;
 }
 
+export interface DeviceCodeInfo {
+    deviceCode: string;
+    userCode: string;
+    verificationUri: string;
+    /** Seconds until the code expires **/
+    expiresIn: number;
+    /** Seconds to wait between polls **/
+    interval: number;
+}
+
 interface XboxLoginResponse {
     username: string;
     access_token: string;
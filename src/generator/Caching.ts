@@ -11,11 +11,11 @@ import { User } from "../typings/User";
 import { ISkinDocument } from "../typings";
 import { ProfileResponse } from "../typings/ProfileResponse";
 import { MineSkinMetrics } from "../util/metrics";
-import { Bread } from "../typings/Bread";
 import { IApiKeyDocument } from "../typings/db/IApiKeyDocument";
 import { ApiKey } from "../database/schemas/ApiKey";
 import { IPendingDiscordLink } from "../typings/DiscordAccountLink";
 import { Time } from "@inventivetalent/time";
+import { SkinVariant } from "../typings/db/ISkinDocument";
 
 export class Caching {
 
@@ -164,6 +164,22 @@ export class Caching {
         .expirationInterval(Time.seconds(5))
         .buildAsync<string, ISkinDocument>(id => Skin.findForUuid(id));
 
+    protected static readonly skinByHashCache: AsyncLoadingCache<string, ISkinDocument> = Caches.builder()
+        .expireAfterWrite(Time.seconds(20))
+        .expirationInterval(Time.seconds(5))
+        .buildAsync<string, ISkinDocument>(key => {
+            const [hash, variant] = key.split(":");
+            return Skin.findForHash(hash, variant as SkinVariant);
+        });
+
+    protected static readonly skinByTextureHashCache: AsyncLoadingCache<string, ISkinDocument> = Caches.builder()
+        .expireAfterWrite(Time.seconds(20))
+        .expirationInterval(Time.seconds(5))
+        .buildAsync<string, ISkinDocument>(key => {
+            const [textureHash, variant] = key.split(":");
+            return Skin.findForTextureHash(textureHash, variant as SkinVariant);
+        });
+
     protected static readonly apiKeyCache: AsyncLoadingCache<string, IApiKeyDocument> = Caches.builder()
         .expireAfterWrite(Time.minutes(5))
         .expireAfterAccess(Time.minutes(1))
@@ -183,11 +199,6 @@ export class Caching {
         .expirationInterval(Time.seconds(30))
         .build();
 
-    protected static readonly recentAccountsLock: SimpleCache<number, string> = Caches.builder()
-        .expireAfterWrite(Time.minutes(1))
-        .expirationInterval(Time.seconds(20))
-        .build();
-
     protected static readonly hashCache: LoadingCache<string, string> = Caches.builder()
         .expireAfterAccess(Time.seconds(40))
         .expirationInterval(Time.seconds(10))
@@ -206,11 +217,12 @@ export class Caching {
             ["trafficById", Caching.trafficByIpCache],
             ["skinById", Caching.skinByIdCache],
             ["skinByUuid", Caching.skinByUuidCache],
+            ["skinByHash", Caching.skinByHashCache],
+            ["skinByTextureHash", Caching.skinByTextureHashCache],
             ["apiKeys", Caching.apiKeyCache],
             ["skinDocumentCounts", Caching.skinDocumentCounts],
 
             ["pendingDiscordLinks", Caching.pendingDiscordLinkByStateCache],
-            ["accountLock", Caching.recentAccountsLock],
             ["hashes", Caching.hashCache]
         ]);
         const points: IPoint[] = [];
@@ -277,6 +289,27 @@ export class Caching {
         return this.skinByUuidCache.get(id);
     }
 
+    public static getSkinByHash(hash: string, variant: SkinVariant = SkinVariant.UNKNOWN): Promise<Maybe<ISkinDocument>> {
+        return this.skinByHashCache.get(`${ hash }:${ variant }`);
+    }
+
+    public static getSkinByTextureHash(textureHash: string, variant: SkinVariant = SkinVariant.UNKNOWN): Promise<Maybe<ISkinDocument>> {
+        return this.skinByTextureHashCache.get(`${ textureHash }:${ variant }`);
+    }
+
+    public static invalidateSkin(skin: ISkinDocument): void {
+        this.skinByIdCache.invalidate(skin.id);
+        if (skin.skinUuid) {
+            this.skinByUuidCache.invalidate(skin.skinUuid);
+        }
+        for (const variant of Object.values(SkinVariant)) {
+            this.skinByHashCache.invalidate(`${ skin.hash }:${ variant }`);
+            if (skin.minecraftTextureHash) {
+                this.skinByTextureHashCache.invalidate(`${ skin.minecraftTextureHash }:${ variant }`);
+            }
+        }
+    }
+
     public static getApiKey(key: string): Promise<Maybe<IApiKeyDocument>> {
         return this.apiKeyCache.get(key);
     }
@@ -299,18 +332,6 @@ export class Caching {
         this.pendingDiscordLinkByStateCache.invalidate(state);
     }
 
-    public static lockSelectedAccount(accountId: number, bread?: Bread): void {
-        this.recentAccountsLock.put(accountId, bread?.breadcrumb ?? `${ accountId }`);
-    }
-
-    public static getLockedAccounts(): number[] {
-        return this.recentAccountsLock.keys();
-    }
-
-    public static isAccountLocked(accountId: number): boolean {
-        return !!this.recentAccountsLock.getIfPresent(accountId);
-    }
-
     public static cachedSha512(str: string): string {
         return this.hashCache.get(str)!;
     }
@@ -1,11 +1,13 @@
 import { Account, Skin, Stat } from "../database/schemas";
 import { MemoizeExpiring } from "@inventivetalent/typescript-memoize";
-import { base64decode, getHashFromMojangTextureUrl, hasOwnProperty, imgHash, longAndShortUuid, Maybe, random32BitNumber, stripUuid } from "../util";
+import { base64decode, getHashFromMojangTextureUrl, hasOwnProperty, imgHash, longAndShortUuid, Maybe, random32BitNumber, stripUuid, variantToModel } from "../util";
 import { Caching } from "./Caching";
 import { Authentication, AuthenticationError } from "./Authentication";
 import * as Sentry from "@sentry/node";
 import { Severity } from "@sentry/node";
 import { Requests } from "./Requests";
+import { SafeFetch, SafeFetchError, SafeResponse } from "./SafeFetch";
+import { UrlResolvers } from "./UrlResolvers";
 import * as FormData from "form-data";
 import { URL } from "url";
 import { MOJ_DIR, Temp, TempFile, UPL_DIR, URL_DIR } from "./Temp";
@@ -35,23 +37,23 @@ import stripUserAgent from "user-agent-stripper";
 import { MineSkinMetrics } from "../util/metrics";
 import { MineSkinOptimus } from "../util/optimus";
 import { Discord } from "../util/Discord";
+import { Webhooks } from "../util/Webhooks";
+import { normalizeSkinImage } from "../util/imageNormalization";
+import { getSkinHashes, hammingDistance, MAX_PHASH_DISTANCE, SkinHashes } from "../util/skinHash";
+import { detectSkinVariant, upgradeLegacySkin } from "../util/skinTexture";
+import { CachedImage, RenderCache } from "../util/RenderCache";
+import { getHealthScore, MAX_RECENT_ERRORS, RECENT_ERROR_WINDOW } from "../util/accountHealth";
 
 
 // minimum delay for accounts to be used - don't set lower than 60
 export const MIN_ACCOUNT_DELAY = 80;
 
 const MAX_ID_TRIES = 10;
+const MAX_SIGNATURE_HISTORY = 10;
 
 const MINESKIN_URL_REGEX = /https?:\/\/minesk(\.in|in\.org)\/([0-9]+)/i;
 const MINECRAFT_TEXTURE_REGEX = /https?:\/\/textures\.minecraft\.net\/texture\/([0-9a-z]+)/i;
 
-const URL_REWRITES = new Map<RegExp, string>([
-    [/https?:\/\/imgur\.com\/(.+)/, 'https://i.imgur.com/$1.png'],
-    [/https?:\/\/.+namemc\.com\/skin\/(.+)/, 'https://namemc.com/texture/$1.png'],
-    [/https?:\/\/.+minecraftskins\.com\/skin\/(\d+)\/.+/, 'https://www.minecraftskins.com/skin/download/$1'],
-    [/https?:\/\/minecraft\.novaskin\.me\/skin\/(\d+)\/.+/, 'https://minecraft.novaskin.me/skin/$1/download']
-]);
-
 const URL_FOLLOW_WHITELIST = [
     "novask.in",
     "imgur.com",
@@ -61,9 +63,15 @@ const MAX_FOLLOW_REDIRECTS = 5;
 
 const MAX_IMAGE_SIZE = 20000; // 20KB - about 70x70px at 32bit
 const ALLOWED_IMAGE_TYPES = ["image/png"];
+// images are converted/scaled down before the regular checks if the client asks for it
+const MAX_NORMALIZE_IMAGE_SIZE = 512000; // 500KB
+const NORMALIZE_IMAGE_TYPES = ["image/png", "image/gif", "image/bmp", "image/x-ms-bmp", "image/webp"];
 
 export const HASH_VERSION = 4;
 
+const DEFAULT_MAX_PHASH_DISTANCE = 2;
+const MAX_SIMILAR_CANDIDATES = 50;
+
 export class Generator {
 
     protected static accountStats: AccountStats;
@@ -205,14 +213,22 @@ export class Generator {
             await metrics.metrics!.influx.writePoints(accountsPerTypePoints, {
                 database: 'mineskin'
             })
+
+            await metrics.metrics!.influx.writePoints(await this.queryAccountHealthPoints(), {
+                database: 'mineskin'
+            })
         } catch (e) {
             console.warn(e);
             Sentry.captureException(e);
         }
     }
 
-    protected static async queryAccountStats(): Promise<AccountStats> {
+    /**
+     * @param server server to count accounts of, this server if not set
+     */
+    static async queryAccountStats(server?: string): Promise<AccountStats> {
         const config = await getConfig();
+        server = server || config.server;
         const time = Date.now() / 1000;
 
         const enabledAccounts = await Account.countDocuments({
@@ -220,12 +236,12 @@ export class Generator {
         }).exec();
         const serverAccounts = await Account.countDocuments({
             enabled: true,
-            requestServer: config.server
+            requestServer: server
         }).exec();
         const healthyAccounts = await Account.countGlobalUsable();
         const useableAccounts = await Account.countDocuments({
             enabled: true,
-            requestServer: { $in: ["default", config.server] },
+            requestServer: { $in: ["default", server] },
             lastUsed: { '$lt': (time - MIN_ACCOUNT_DELAY) },
             forcedTimeoutAt: { '$lt': (time - 500) },
             errorCounter: { '$lt': (config.errorThreshold || 10) },
@@ -234,7 +250,7 @@ export class Generator {
         const accountTypes = await Account.aggregate([
             {
                 "$match": {
-                    requestServer: { $in: ["default", config.server] }
+                    requestServer: { $in: ["default", server] }
                 }
             }, {
                 "$group":
@@ -260,6 +276,27 @@ export class Generator {
         };
     }
 
+    protected static async queryAccountHealthPoints(): Promise<IPoint[]> {
+        const config = await getConfig();
+        const time = Math.floor(Date.now() / 1000);
+        const accounts = await Account.find({
+            enabled: true,
+            requestServer: config.server
+        }).exec();
+        return accounts.map(account => {
+            return {
+                measurement: 'account_health',
+                tags: {
+                    server: config.server,
+                    account: `${ account.id }`
+                },
+                fields: {
+                    health: getHealthScore(account, time)
+                }
+            };
+        });
+    }
+
     protected static async queryDurationStats(): Promise<DurationStats> {
         return Skin.aggregate([
             { "$sort": { time: -1 } },
@@ -412,6 +449,9 @@ export class Generator {
             skinUuid: skinUuid,
 
             hash: result.meta?.imageHash,
+            phash: result.meta?.hashes?.phash,
+            phashParts: result.meta?.hashes?.phashParts,
+            canonicalHash: result.meta?.hashes?.canonicalHash,
             uuid: result.meta?.uuid,
 
             name: options.name,
@@ -425,6 +465,7 @@ export class Generator {
             minecraftTextureHash: getHashFromMojangTextureUrl(result.data!.decodedValue!.textures.SKIN!.url!),
             textureHash: result.meta?.mojangHash,
             minecraftSkinId: result.meta?.minecraftSkinId,
+            capeUrl: result.meta?.capeUrl,
 
             time: (time / 1000),
             generateDuration: duration,
@@ -437,6 +478,7 @@ export class Generator {
             via: client.via,
             ua: client.userAgent,
             apiKey: client.apiKey,
+            apiKeyId: client.apiKeyId,
 
             duplicate: 0,
             views: 0,
@@ -451,7 +493,7 @@ export class Generator {
     protected static async getDuplicateOrSaved(result: GenerateResult, options: GenerateOptions, client: ClientInfo, type: GenerateType, start: number): Promise<SavedSkin> {
         const metrics = await MineSkinMetrics.get();
         if (result.duplicate) {
-            return new SavedSkin(result.duplicate, true);
+            return new SavedSkin(result.duplicate, true, result.changes, result.duplicateSource);
         }
         if (result.data) {
             try {
@@ -464,15 +506,33 @@ export class Generator {
                 Sentry.captureException(e);
             }
             const doc = await this.saveSkin(result, options, client, type, start)
-            return new SavedSkin(doc, false);
+            return new SavedSkin(doc, false, result.changes);
         }
         // shouldn't ever get here
         throw new MineSkinError('unknown', "Something went wrong while generating");
     }
 
+    /**
+     * Runs the generator, saves the result and notifies the client's webhook about the outcome
+     */
+    protected static async runAndSave(type: GenerateType, options: GenerateOptions, client: ClientInfo, generate: () => Promise<GenerateResult>): Promise<SavedSkin> {
+        const start = Date.now();
+        try {
+            const data = await generate();
+            const skin = await this.getDuplicateOrSaved(data, options, client, type, start);
+            const end = Date.now();
+            (await MineSkinMetrics.get()).durationMetric(end - start, type, options, data.account);
+            Webhooks.notifyGenerated(client, options, skin).catch(e => Sentry.captureException(e));
+            return skin;
+        } catch (e) {
+            Webhooks.notifyFailed(client, options, e).catch(e => Sentry.captureException(e));
+            throw e;
+        }
+    }
+
     /// DUPLICATE CHECKS
 
-    protected static async findDuplicateFromUrl(url: string, options: GenerateOptions, type: GenerateType): Promise<Maybe<ISkinDocument>> {
+    public static async findDuplicateFromUrl(url: string, options: GenerateOptions, type: GenerateType): Promise<Maybe<DuplicateResult>> {
         const metrics = await MineSkinMetrics.get();
         if (!url || url.length < 8 || !url.startsWith("http")) {
             return undefined;
@@ -497,7 +557,10 @@ export class Generator {
                 } catch (e) {
                     Sentry.captureException(e);
                 }
-                return await existingSkin.save();
+                return {
+                    skin: await existingSkin.save(),
+                    source: DuplicateSource.MINESKIN_URL
+                };
             } else {
                 return undefined;
             }
@@ -526,7 +589,10 @@ export class Generator {
                 } catch (e) {
                     Sentry.captureException(e);
                 }
-                return await existingSkin.save();
+                return {
+                    skin: await existingSkin.save(),
+                    source: DuplicateSource.TEXTURE_URL
+                };
             } else {
                 return undefined;
             }
@@ -535,7 +601,7 @@ export class Generator {
         return undefined;
     }
 
-    protected static async findDuplicateFromImageHash(hash: string, options: GenerateOptions, client: ClientInfo, type: GenerateType): Promise<Maybe<ISkinDocument>> {
+    public static async findDuplicateFromImageHash(hash: string, options: GenerateOptions, client: ClientInfo, type: GenerateType): Promise<Maybe<DuplicateResult>> {
         const metrics = await MineSkinMetrics.get();
         if (!hash || hash.length < 30) {
             return undefined;
@@ -560,13 +626,78 @@ export class Generator {
             } catch (e) {
                 Sentry.captureException(e);
             }
-            return await existingSkin.save();
+            return {
+                skin: await existingSkin.save(),
+                source: DuplicateSource.IMAGE_HASH
+            };
         } else {
             return undefined;
         }
     }
 
-    protected static async findDuplicateFromUuid(uuid: string, options: GenerateOptions, type: GenerateType): Promise<Maybe<ISkinDocument>> {
+    /**
+     * Finds a skin that looks the same, i.e. only differs in the color of transparent pixels
+     * or has a perceptual hash within the configured distance. The closest match is used.
+     */
+    public static async findSimilarDuplicate(hashes: SkinHashes, options: GenerateOptions, client: ClientInfo, type: GenerateType): Promise<Maybe<DuplicateResult>> {
+        const config = await getConfig();
+
+        const canonicalQuery = {
+            canonicalHash: hashes.canonicalHash
+        };
+        this.appendOptionsToDuplicateQuery(options, canonicalQuery);
+        let existingSkin = await Skin.findOne(canonicalQuery).exec();
+        let source = DuplicateSource.CANONICAL_HASH;
+
+        const maxDistance = Math.min(config.duplicates?.maxPhashDistance ?? DEFAULT_MAX_PHASH_DISTANCE, MAX_PHASH_DISTANCE);
+        if (!existingSkin && maxDistance > 0) {
+            const phashQuery = {
+                phashParts: { $in: hashes.phashParts }
+            };
+            this.appendOptionsToDuplicateQuery(options, phashQuery);
+            const candidates = await Skin.find(phashQuery)
+                .limit(MAX_SIMILAR_CANDIDATES)
+                .select({ '_id': 0, id: 1, phash: 1 })
+                .lean()
+                .exec();
+            let closest: Maybe<{ id: number, distance: number }> = undefined;
+            for (const candidate of candidates) {
+                const distance = hammingDistance(hashes.phash, candidate.phash!);
+                if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+                    closest = { id: candidate.id, distance };
+                }
+            }
+            if (closest) {
+                console.log(debug(options.breadcrumb + " Closest perceptual hash match is #" + closest.id + " (distance " + closest.distance + ")"));
+                existingSkin = await Skin.findOne({ id: closest.id }).exec();
+                source = DuplicateSource.PERCEPTUAL_HASH;
+            }
+        }
+
+        if (!existingSkin) {
+            return undefined;
+        }
+        console.log(debug(options.breadcrumb + " Found similar existing skin (" + source + ")"));
+        existingSkin.duplicate++;
+        try {
+            const metrics = await MineSkinMetrics.get();
+            metrics.newDuplicate
+                .tag("newOrDuplicate", "duplicate")
+                .tag("server", metrics.config.server)
+                .tag("source", source)
+                .tag("type", type)
+                .tag("userAgent", stripUserAgent(client.userAgent))
+                .inc();
+        } catch (e) {
+            Sentry.captureException(e);
+        }
+        return {
+            skin: await existingSkin.save(),
+            source: source
+        };
+    }
+
+    public static async findDuplicateFromUuid(uuid: string, options: GenerateOptions, type: GenerateType): Promise<Maybe<DuplicateResult>> {
         const metrics = await MineSkinMetrics.get();
         if (!uuid || uuid.length < 34) {
             return undefined;
@@ -591,7 +722,10 @@ export class Generator {
             } catch (e) {
                 Sentry.captureException(e);
             }
-            return await existingSkin.save();
+            return {
+                skin: await existingSkin.save(),
+                source: DuplicateSource.USER_UUID
+            };
         } else {
             return undefined;
         }
@@ -600,12 +734,7 @@ export class Generator {
     /// GENERATE URL
 
     public static async generateFromUrlAndSave(url: string, options: GenerateOptions, client: ClientInfo): Promise<SavedSkin> {
-        const start = Date.now();
-        const data = await this.generateFromUrl(url, options, client);
-        const skin = await this.getDuplicateOrSaved(data, options, client, GenerateType.URL, start);
-        const end = Date.now();
-        (await MineSkinMetrics.get()).durationMetric(end - start, GenerateType.URL, options, data.account);
-        return skin;
+        return this.runAndSave(GenerateType.URL, options, client, () => this.generateFromUrl(url, options, client));
     }
 
     protected static async generateFromUrl(originalUrl: string, options: GenerateOptions, client: ClientInfo): Promise<GenerateResult> {
@@ -616,6 +745,7 @@ export class Generator {
         try {
             metrics.urlHosts
                 .tag('host', new URL(originalUrl).host)
+                .tag('resolver', (await UrlResolvers.find(originalUrl))?.name ?? "none")
                 .inc();
         } catch (e) {
             Sentry.captureException(e);
@@ -628,11 +758,12 @@ export class Generator {
             const originalUrlDuplicate = await this.findDuplicateFromUrl(originalUrl, options, GenerateType.URL);
             if (originalUrlDuplicate) {
                 return {
-                    duplicate: originalUrlDuplicate
+                    duplicate: originalUrlDuplicate.skin,
+                    duplicateSource: originalUrlDuplicate.source
                 };
             }
-            // Fix user errors
-            originalUrl = this.rewriteUrl(originalUrl, options);
+            // Fix user errors & links to skin pages
+            originalUrl = (await UrlResolvers.resolve(originalUrl, options)).url;
             // Try to find the source image
             const followResponse = await this.followUrl(originalUrl);
             if (!followResponse) {
@@ -649,18 +780,22 @@ export class Generator {
                 const followedUrlDuplicate = await this.findDuplicateFromUrl(url, options, GenerateType.URL);
                 if (followedUrlDuplicate) {
                     return {
-                        duplicate: followedUrlDuplicate
+                        duplicate: followedUrlDuplicate.skin,
+                        duplicateSource: followedUrlDuplicate.source
                     };
                 }
             }
             const contentType = this.getContentTypeFromResponse(followResponse);
             Sentry.setExtra("generate_contentType", contentType);
-            if (!contentType || !contentType.startsWith("image") || !ALLOWED_IMAGE_TYPES.includes(contentType)) {
+            const allowedTypes = options.normalize ? NORMALIZE_IMAGE_TYPES : ALLOWED_IMAGE_TYPES;
+            if (!contentType || !contentType.startsWith("image") || !allowedTypes.includes(contentType)) {
                 throw new GeneratorError(GenError.INVALID_IMAGE, "Invalid image content type: " + contentType, 400, undefined, originalUrl);
             }
+            // the size is checked again while downloading, in case the header is missing or wrong
+            const maxSize = options.normalize ? MAX_NORMALIZE_IMAGE_SIZE : MAX_IMAGE_SIZE;
             const size = this.getSizeFromResponse(followResponse);
             Sentry.setExtra("generate_contentLength", size);
-            if (!size || size < 100 || size > MAX_IMAGE_SIZE) {
+            if (typeof size !== "undefined" && (size < 100 || size > maxSize)) {
                 throw new GeneratorError(GenError.INVALID_IMAGE, "Invalid image file size", 400, undefined, originalUrl);
             }
 
@@ -669,8 +804,11 @@ export class Generator {
                 dir: URL_DIR
             });
             try {
-                await Temp.downloadImage(url, tempFile)
+                await Temp.downloadImage(url, tempFile, maxSize)
             } catch (e) {
+                if (e instanceof SafeFetchError) {
+                    throw new GeneratorError(GenError.INVALID_IMAGE, "Failed to download image: " + e.msg, 400, undefined, e);
+                }
                 throw new GeneratorError(GenError.INVALID_IMAGE, "Failed to download image", 500, undefined, e);
             }
 
@@ -689,25 +827,9 @@ export class Generator {
 
             account = await this.getAndAuthenticateAccount(options);
 
-            const body = {
-                variant: options.variant,
-                url: url
-            };
-            const skinResponse = await Requests.minecraftServicesRequest({
-                method: "POST",
-                url: "/minecraft/profile/skins",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": account.authenticationHeader()
-                },
-                data: body
-            }).catch(err => {
-                if (err.response) {
-                    let msg = (err.response as AxiosResponse).data?.errorMessage ?? "Failed to change skin";
-                    throw new GeneratorError(GenError.SKIN_CHANGE_FAILED, msg, (err.response as AxiosResponse).status, account, err);
-                }
-                throw err;
-            });
+            // the image behind the url isn't what should be uploaded if it had to be normalized
+            const normalized = tempFileValidation.changes && tempFileValidation.changes.length > 0;
+            const skinResponse = await this.requestSkinChange(account, options, normalized ? tempFileValidation.buffer! : url);
             return this.handleSkinChangeResponse(skinResponse, GenerateType.URL, options, client, account, tempFileValidation);
         } catch (e) {
             await this.handleGenerateError(e, GenerateType.URL, options, client, account);
@@ -720,18 +842,7 @@ export class Generator {
 
     }
 
-    protected static rewriteUrl(urlStr: string, bread: Bread): string {
-        for (let [pattern, replacement] of URL_REWRITES.entries()) {
-            if (pattern.test(urlStr)) {
-                const str = urlStr.replace(pattern, replacement);
-                console.log(debug(`${ bread.breadcrumb } Rewrite ${ urlStr } -> ${ str }`));
-                return str;
-            }
-        }
-        return urlStr;
-    }
-
-    protected static async followUrl(urlStr: string): Promise<Maybe<AxiosResponse>> {
+    protected static async followUrl(urlStr: string): Promise<Maybe<SafeResponse>> {
         if (!urlStr) return undefined;
         try {
             const url = new URL(urlStr);
@@ -742,15 +853,22 @@ export class Generator {
                 return undefined;
             }
             const follow = URL_FOLLOW_WHITELIST.includes(url.host!);
-            return await Requests.axiosInstance.request({
-                method: "HEAD",
-                url: url.href,
-                maxRedirects: follow ? MAX_FOLLOW_REDIRECTS : 0,
+            const response = await SafeFetch.head(url.href, {
+                maxBytes: 0,
+                maxRedirects: follow ? MAX_FOLLOW_REDIRECTS : 0
+            }, {
                 headers: {
                     "User-Agent": "MineSkin"
                 }
             });
+            if (response.status < 200 || response.status >= 300) {
+                return undefined;
+            }
+            return response;
         } catch (e) {
+            if (e instanceof SafeFetchError) {
+                throw new GeneratorError(GenError.INVALID_IMAGE_URL, e.msg!, 400, undefined, e);
+            }
             Sentry.captureException(e, {
                 level: Severity.Warning
             });
@@ -761,18 +879,15 @@ export class Generator {
 
     /// GENERATE UPLOAD
 
-    public static async generateFromUploadAndSave(file: UploadedFile, options: GenerateOptions, client: ClientInfo): Promise<SavedSkin> {
-        const start = Date.now();
-        const data = await this.generateFromUpload(file, options, client);
-        const skin = await this.getDuplicateOrSaved(data, options, client, GenerateType.UPLOAD, start);
-        const end = Date.now();
-        (await MineSkinMetrics.get()).durationMetric(end - start, GenerateType.UPLOAD, options, data.account);
-        return skin;
+    public static async generateFromUploadAndSave(file: UploadedFile | Buffer, options: GenerateOptions, client: ClientInfo): Promise<SavedSkin> {
+        return this.runAndSave(GenerateType.UPLOAD, options, client, () => this.generateFromUpload(file, options, client));
     }
 
-    protected static async generateFromUpload(file: UploadedFile, options: GenerateOptions, client: ClientInfo): Promise<GenerateResult> {
+    protected static async generateFromUpload(file: UploadedFile | Buffer, options: GenerateOptions, client: ClientInfo): Promise<GenerateResult> {
         console.log(info(options.breadcrumb + " [Generator] Generating from upload"));
-        Sentry.setExtra("generate_file", file.md5);
+        if (!Buffer.isBuffer(file)) {
+            Sentry.setExtra("generate_file", file.md5);
+        }
 
         let account: Maybe<IAccountDocument> = undefined;
         let tempFile: Maybe<TempFile> = undefined;
@@ -802,26 +917,7 @@ export class Generator {
 
             account = await this.getAndAuthenticateAccount(options);
 
-            const body = new FormData();
-            body.append("variant", options.variant);
-            body.append("file", tempFileValidation.buffer!, {
-                filename: "skin.png",
-                contentType: "image/png"
-            });
-            const skinResponse = await Requests.minecraftServicesRequest({
-                method: "POST",
-                url: "/minecraft/profile/skins",
-                headers: body.getHeaders({
-                    "Authorization": account.authenticationHeader()
-                }),
-                data: body
-            }).catch(err => {
-                if (err.response) {
-                    let msg = (err.response as AxiosResponse).data?.errorMessage ?? "Failed to change skin";
-                    throw new GeneratorError(GenError.SKIN_CHANGE_FAILED, msg, (err.response as AxiosResponse).status, account, err);
-                }
-                throw err;
-            });
+            const skinResponse = await this.requestSkinChange(account, options, tempFileValidation.buffer!);
             return this.handleSkinChangeResponse(skinResponse, GenerateType.UPLOAD, options, client, account, tempFileValidation);
         } catch (e) {
             await this.handleGenerateError(e, GenerateType.UPLOAD, options, client, account);
@@ -833,6 +929,47 @@ export class Generator {
         }
     }
 
+    /**
+     * Changes the account's skin to the image at the url, or to the uploaded image data
+     */
+    protected static async requestSkinChange(account: IAccountDocument, options: GenerateOptions, source: string | Buffer): Promise<AxiosResponse> {
+        let headers: any;
+        let data: any;
+        if (Buffer.isBuffer(source)) {
+            const body = new FormData();
+            body.append("variant", options.variant);
+            body.append("file", source, {
+                filename: "skin.png",
+                contentType: "image/png"
+            });
+            headers = body.getHeaders({
+                "Authorization": account.authenticationHeader()
+            });
+            data = body;
+        } else {
+            headers = {
+                "Content-Type": "application/json",
+                "Authorization": account.authenticationHeader()
+            };
+            data = {
+                variant: options.variant,
+                url: source
+            };
+        }
+        return await Requests.minecraftServicesRequest({
+            method: "POST",
+            url: "/minecraft/profile/skins",
+            headers: headers,
+            data: data
+        }).catch(err => {
+            if (err.response) {
+                let msg = (err.response as AxiosResponse).data?.errorMessage ?? "Failed to change skin";
+                throw new GeneratorError(GenError.SKIN_CHANGE_FAILED, msg, (err.response as AxiosResponse).status, account, err);
+            }
+            throw err;
+        });
+    }
+
     static async handleSkinChangeResponse(skinResponse: AxiosResponse, type: GenerateType, options: GenerateOptions, client: ClientInfo, account: IAccountDocument, tempFileValidation: TempFileValidationResult): Promise<GenerateResult> {
         const skinChangeResponse = skinResponse.data as SkinChangeResponse;
         const minecraftSkinId = skinChangeResponse?.skins[0]?.id;
@@ -871,11 +1008,14 @@ export class Generator {
         return {
             data: data,
             account: account,
+            changes: tempFileValidation.changes,
             meta: {
                 uuid: randomUuid(),
                 imageHash: tempFileValidation.hash!,
                 mojangHash: mojangHash!.hash!,
-                minecraftSkinId: minecraftSkinId
+                hashes: tempFileValidation.hashes,
+                minecraftSkinId: minecraftSkinId,
+                capeUrl: data.decodedValue!.textures.CAPE?.url
             }
         };
     }
@@ -883,12 +1023,7 @@ export class Generator {
     /// GENERATE USER
 
     public static async generateFromUserAndSave(user: string, options: GenerateOptions, client: ClientInfo): Promise<SavedSkin> {
-        const start = Date.now();
-        const data = await this.generateFromUser(user, options, client);
-        const skin = await this.getDuplicateOrSaved(data, options, client, GenerateType.USER, start);
-        const end = Date.now();
-        (await MineSkinMetrics.get()).durationMetric(end - start, GenerateType.USER, options, data.account);
-        return skin;
+        return this.runAndSave(GenerateType.USER, options, client, () => this.generateFromUser(user, options, client));
     }
 
     protected static async generateFromUser(uuid: string, options: GenerateOptions, client: ClientInfo): Promise<GenerateResult> {
@@ -899,7 +1034,8 @@ export class Generator {
         const uuidDuplicate = await this.findDuplicateFromUuid(uuids.long, options, GenerateType.USER);
         if (uuidDuplicate) {
             return {
-                duplicate: uuidDuplicate
+                duplicate: uuidDuplicate.skin,
+                duplicateSource: uuidDuplicate.source
             };
         }
 
@@ -911,20 +1047,148 @@ export class Generator {
         const hashDuplicate = await this.findDuplicateFromImageHash(mojangHash!.hash!, options, client, GenerateType.USER);
         if (hashDuplicate) {
             return {
-                duplicate: hashDuplicate
+                duplicate: hashDuplicate.skin,
+                duplicateSource: hashDuplicate.source
             };
         }
 
+        const hashes = await getSkinHashes(mojangHash.buffer!);
+        if (options.allowSimilar) {
+            const similarDuplicate = await this.findSimilarDuplicate(hashes, options, client, GenerateType.USER);
+            if (similarDuplicate) {
+                return {
+                    duplicate: similarDuplicate.skin,
+                    duplicateSource: similarDuplicate.source
+                };
+            }
+        }
+
         return {
             data: data,
             meta: {
                 uuid: uuids.long,
                 imageHash: mojangHash!.hash!,
-                mojangHash: mojangHash!.hash!
+                mojangHash: mojangHash!.hash!,
+                hashes: hashes,
+                capeUrl: data.decodedValue!.textures.CAPE?.url
+            }
+        };
+    }
+
+    /// REFRESH
+
+    /**
+     * Generates new texture data for an existing skin and updates it in place, keeping its id & uuid.
+     * User skins are refreshed from the player's profile if they still wear the same skin, everything else is re-uploaded through an account.
+     */
+    public static async refreshSkin(skin: ISkinDocument, client: ClientInfo, bread?: Bread): Promise<ISkinDocument> {
+        console.log(info(bread?.breadcrumb + " [Generator] Refreshing skin #" + skin.id));
+        Sentry.setExtra("refresh_skin", skin.id);
+        const options: GenerateOptions = {
+            model: skin.model,
+            variant: skin.variant,
+            visibility: skin.visibility,
+            name: skin.name,
+            breadcrumb: bread?.breadcrumb
+        };
+
+        let result: Maybe<GenerateResult> = undefined;
+        if (skin.type === GenerateType.USER && skin.uuid) {
+            result = await this.refreshFromUser(skin, options);
+        }
+        if (!result) {
+            result = await this.refreshFromTexture(skin, options, client);
+        }
+
+        const data = result.data!;
+        const textureUrl = data.decodedValue!.textures!.SKIN!.url!;
+        if (!skin.signatureHistory) {
+            skin.signatureHistory = [];
+        }
+        skin.signatureHistory.push({
+            value: skin.value,
+            signature: skin.signature,
+            url: skin.url,
+            minecraftTextureHash: skin.minecraftTextureHash,
+            time: Math.floor(Date.now() / 1000)
+        });
+        if (skin.signatureHistory.length > MAX_SIGNATURE_HISTORY) {
+            skin.signatureHistory.splice(0, skin.signatureHistory.length - MAX_SIGNATURE_HISTORY);
+        }
+        skin.value = data.value;
+        skin.signature = data.signature!;
+        skin.url = textureUrl;
+        skin.minecraftTextureHash = getHashFromMojangTextureUrl(textureUrl);
+        skin.capeUrl = result.meta?.capeUrl;
+        if (result.meta?.mojangHash) {
+            skin.textureHash = result.meta.mojangHash;
+        }
+        if (result.meta?.minecraftSkinId) {
+            skin.minecraftSkinId = result.meta.minecraftSkinId;
+        }
+        if (result.account) {
+            skin.account = result.account.id;
+        }
+
+        await skin.save();
+        Caching.invalidateSkin(skin);
+        console.log(info(bread?.breadcrumb + " Skin #" + skin.id + " refreshed"));
+        return skin;
+    }
+
+    protected static async refreshFromUser(skin: ISkinDocument, options: GenerateOptions): Promise<Maybe<GenerateResult>> {
+        const uuids = longAndShortUuid(skin.uuid);
+        if (!uuids) {
+            return undefined;
+        }
+        const data = await this.getSkinData({
+            uuid: uuids.short
+        });
+        const mojangHash = await this.getMojangHash(data.decodedValue!.textures!.SKIN!.url);
+        if (mojangHash.hash !== skin.hash) {
+            // the player changed their skin since, so the old texture has to be uploaded again
+            console.log(debug(options.breadcrumb + " Player " + uuids.long + " is wearing a different skin now"));
+            return undefined;
+        }
+        return {
+            data: data,
+            meta: {
+                uuid: uuids.long,
+                imageHash: mojangHash.hash!,
+                mojangHash: mojangHash.hash!,
+                capeUrl: data.decodedValue!.textures.CAPE?.url
             }
         };
     }
 
+    protected static async refreshFromTexture(skin: ISkinDocument, options: GenerateOptions, client: ClientInfo): Promise<GenerateResult> {
+        let account: Maybe<IAccountDocument> = undefined;
+        try {
+            let texture: CachedImage;
+            try {
+                // the render cache might still have a copy if the url is dead
+                texture = await RenderCache.getTexture(skin.url, skin.minecraftTextureHash);
+            } catch (e) {
+                throw new GeneratorError(GenError.TEXTURE_UNAVAILABLE, "The skin's texture is not available anymore", 404, undefined, e);
+            }
+            const imageHash = await imgHash(texture.buffer);
+            if (skin.hash && imageHash !== skin.hash) {
+                console.warn(warn(options.breadcrumb + " Texture of skin #" + skin.id + " doesn't match its hash (" + imageHash + " != " + skin.hash + ")"));
+            }
+
+            account = await this.getAndAuthenticateAccount(options);
+
+            const skinResponse = await this.requestSkinChange(account, options, texture.buffer);
+            return await this.handleSkinChangeResponse(skinResponse, skin.type, options, client, account, {
+                buffer: texture.buffer,
+                hash: imageHash
+            });
+        } catch (e) {
+            await this.handleGenerateError(e, skin.type, options, client, account);
+            throw e;
+        }
+    }
+
     /// AUTH
 
     protected static async getAndAuthenticateAccount(bread?: Bread): Promise<IAccountDocument> {
@@ -1017,6 +1281,11 @@ export class Generator {
                 account.errorCounter++;
                 account.totalErrorCounter++;
                 account.lastErrorCode = e.code;
+                const now = Math.floor(Date.now() / 1000);
+                account.recentErrors = (account.recentErrors || [])
+                    .filter(r => now - r.time < RECENT_ERROR_WINDOW)
+                    .concat({ code: e.code ?? e.name, time: now })
+                    .slice(-MAX_RECENT_ERRORS);
                 if (e instanceof AuthenticationError) {
                     account.forcedTimeoutAt = Math.floor(Date.now() / 1000);
                     console.warn(warn(options.breadcrumb + " [Generator] Account #" + account.id + " forced timeout"));
@@ -1037,21 +1306,43 @@ export class Generator {
 
     /// VALIDATION
 
-    protected static getUrlFromResponse(response: AxiosResponse, originalUrl: string): string {
-        return response.request.res.responseUrl || originalUrl; // the axios one may be null if the request was never redirected
+    protected static getUrlFromResponse(response: SafeResponse, originalUrl: string): string {
+        return response.url || originalUrl;
     }
 
-    protected static getSizeFromResponse(response: AxiosResponse): number {
-        return response.headers["content-length"];
+    protected static getSizeFromResponse(response: SafeResponse): Maybe<number> {
+        return response.size;
     }
 
-    protected static getContentTypeFromResponse(response: AxiosResponse): string {
-        return response.headers["content-type"];
+    protected static getContentTypeFromResponse(response: SafeResponse): Maybe<string> {
+        return response.contentType;
     }
 
     protected static async validateTempFile(tempFile: TempFile, options: GenerateOptions, client: ClientInfo, type: GenerateType): Promise<TempFileValidationResult> {
         // Validate downloaded image file
-        const imageBuffer = await fs.readFile(tempFile.path);
+        let imageBuffer = await fs.readFile(tempFile.path);
+
+        let changes: Maybe<string[]> = undefined;
+        if (options.normalize) {
+            if (imageBuffer.byteLength > MAX_NORMALIZE_IMAGE_SIZE) {
+                throw new GeneratorError(GenError.INVALID_IMAGE, "Invalid file size", 400);
+            }
+            try {
+                const normalized = await normalizeSkinImage(imageBuffer);
+                imageBuffer = normalized.buffer;
+                changes = normalized.changes;
+            } catch (e) {
+                if (e instanceof MineSkinError) {
+                    throw e;
+                }
+                throw new GeneratorError(GenError.INVALID_IMAGE, "Failed to normalize image", 400, undefined, e);
+            }
+            if (changes.length > 0) {
+                console.log(debug(options.breadcrumb + " Normalized image: " + changes.join("; ")));
+                Sentry.setExtra("generate_normalized", changes);
+            }
+        }
+
         const size = imageBuffer.byteLength;
         Sentry.setExtra("generate_filesize", size);
         if (!size || size < 100 || size > MAX_IMAGE_SIZE) {
@@ -1080,6 +1371,20 @@ export class Generator {
             throw new GeneratorError(GenError.INVALID_IMAGE, "Invalid image dimensions. Must be 64x32 or 64x64 (Were " + dimensions.width + "x" + dimensions.height + ")", 400);
         }
 
+        // Convert before hashing, so the stored hash is the one of the uploaded image
+        if (options.upgradeLegacy && dimensions.height === 32) {
+            try {
+                const image = upgradeLegacySkin(await Jimp.read(imageBuffer));
+                imageBuffer = await image.getBufferAsync(Jimp.MIME_PNG);
+                dimensions = imageSize(imageBuffer);
+            } catch (e) {
+                throw new GeneratorError(GenError.INVALID_IMAGE, "Failed to upgrade legacy skin", 400, undefined, e);
+            }
+            changes = changes || [];
+            changes.push("upgraded 64x32 skin to 64x64");
+            console.log(debug(options.breadcrumb + " Upgraded legacy skin to 64x64"));
+        }
+
         // Get the imageHash
         let imageHash;
         try {
@@ -1092,10 +1397,29 @@ export class Generator {
         const hashDuplicate = await this.findDuplicateFromImageHash(imageHash, options, client, type);
         if (hashDuplicate) {
             return {
-                duplicate: hashDuplicate
+                duplicate: hashDuplicate.skin,
+                duplicateSource: hashDuplicate.source,
+                changes: changes
             };
         }
 
+        let hashes: SkinHashes;
+        try {
+            hashes = await getSkinHashes(imageBuffer);
+        } catch (e) {
+            throw new GeneratorError(GenError.INVALID_IMAGE, "Failed to get image hash", 400, undefined, e);
+        }
+        if (options.allowSimilar) {
+            const similarDuplicate = await this.findSimilarDuplicate(hashes, options, client, type);
+            if (similarDuplicate) {
+                return {
+                    duplicate: similarDuplicate.skin,
+                    duplicateSource: similarDuplicate.source,
+                    changes: changes
+                };
+            }
+        }
+
         try {
             const dataValidation = await this.validateImageData(imageBuffer);
             if (options.variant === SkinVariant.UNKNOWN && dataValidation.variant !== SkinVariant.UNKNOWN) {
@@ -1110,10 +1434,12 @@ export class Generator {
 
         return {
             buffer: imageBuffer,
-            size: size,
+            size: imageBuffer.byteLength,
             dimensions: dimensions,
             fileType: fType,
-            hash: imageHash
+            hash: imageHash,
+            hashes: hashes,
+            changes: changes
         };
     }
 
@@ -1169,32 +1495,11 @@ export class Generator {
         if ((width !== 64) || (height !== 64 && height !== 32)) {
             throw new GeneratorError(GenError.INVALID_IMAGE, "Invalid image dimensions. Must be 64x32 or 64x64 (Were " + width + "x" + height + ")", 400);
         }
-        if (height < 64) {
-            return {
-                model: SkinModel.CLASSIC,
-                variant: SkinVariant.CLASSIC
-            };
-        }
-        // https://github.com/InventivetalentDev/MineRender/blob/master/src/skin/index.js#L146
-        let allTransparent = true;
-        image.scan(54, 20, 2, 12, function (x, y, idx) {
-            let a = this.bitmap.data[idx + 3];
-            if (a === 255) {
-                allTransparent = false;
-            }
-        });
-
-        if (allTransparent) {
-            return {
-                model: SkinModel.SLIM,
-                variant: SkinVariant.SLIM
-            };
-        } else {
-            return {
-                model: SkinModel.CLASSIC,
-                variant: SkinVariant.CLASSIC
-            }
-        }
+        const variant = detectSkinVariant(image);
+        return {
+            model: variantToModel(variant),
+            variant: variant
+        };
     }
 
     static appendOptionsToDuplicateQuery(options: GenerateOptions, query: any): any {
@@ -1212,12 +1517,18 @@ export class Generator {
 }
 
 export class SavedSkin {
-    constructor(public readonly skin: ISkinDocument, public readonly duplicate: boolean) {
+    constructor(public readonly skin: ISkinDocument, public readonly duplicate: boolean, public readonly changes?: string[], public readonly duplicateSource?: DuplicateSource) {
     }
 
     async toResponseJson(delay?: number): Promise<SkinInfo> {
         const info = await this.skin.toResponseJson();
         info.duplicate = this.duplicate;
+        if (this.duplicateSource) {
+            info.duplicateSource = this.duplicateSource;
+        }
+        if (this.changes && this.changes.length > 0) {
+            info.normalized = this.changes;
+        }
         if (delay) {
             info.nextRequest = delay;
         }
@@ -1225,8 +1536,16 @@ export class SavedSkin {
     }
 }
 
+export interface DuplicateResult {
+    skin: ISkinDocument;
+    source: DuplicateSource;
+}
+
 interface GenerateResult {
     duplicate?: ISkinDocument;
+    duplicateSource?: DuplicateSource;
+    /** Changes made to the image by normalization or the legacy upgrade **/
+    changes?: string[];
     data?: SkinData;
     meta?: SkinMeta;
     account?: IAccountDocument;
@@ -1238,6 +1557,7 @@ interface TempFileValidationResult extends GenerateResult {
     dimensions?: ISizeCalculationResult;
     fileType?: FileTypeResult;
     hash?: string;
+    hashes?: SkinHashes;
 }
 
 interface MojangHashInfo {
@@ -1271,6 +1591,7 @@ export enum GenError {
     INVALID_IMAGE_URL = "invalid_image_url",
     INVALID_IMAGE_UPLOAD = "invalid_image_upload",
     INVALID_SKIN_DATA = "invalid_skin_data",
+    TEXTURE_UNAVAILABLE = "texture_unavailable",
     NO_DUPLICATE = "no_duplicate"
 }
 
@@ -1289,6 +1610,8 @@ export enum DuplicateSource {
     MINESKIN_URL = "mineskin_url",
     TEXTURE_URL = "texture_url",
     IMAGE_HASH = "image_hash",
+    CANONICAL_HASH = "canonical_hash",
+    PERCEPTUAL_HASH = "perceptual_hash",
     USER_UUID = "user_uuid"
 }
 
@@ -0,0 +1,280 @@
+import * as Sentry from "@sentry/node";
+import { v4 as randomUuid } from "uuid";
+import { GenerateJob } from "../database/schemas";
+import { IGenerateJobDocument, JobStatus } from "../typings/db/IGenerateJobDocument";
+import { GenerateType } from "../typings/db/ISkinDocument";
+import { GenerateOptions } from "../typings/GenerateOptions";
+import { ClientInfo } from "../typings/ClientInfo";
+import { BatchInfo, JobInfo } from "../typings/JobInfo";
+import { MineSkinError } from "../typings";
+import { getConfig } from "../typings/Configs";
+import { imgHash, Maybe, stripUuid } from "../util";
+import { getSkinHashes } from "../util/skinHash";
+import { debug, info, warn } from "../util/colors";
+import { DuplicateResult, DuplicateSource, Generator, SavedSkin } from "./Generator";
+import { Caching } from "./Caching";
+import { nextBreadColor } from "../typings/Bread";
+import { Webhooks } from "../util/Webhooks";
+
+// jobs running in parallel on this server
+const MAX_RUNNING_JOBS = 4;
+const PROCESS_INTERVAL = 1000;
+
+export const MAX_BATCH_SIZE = 64;
+
+export interface JobSource {
+    url?: string;
+    user?: string;
+    file?: Buffer;
+}
+
+export interface BatchItem {
+    type: GenerateType;
+    source: JobSource;
+    options: GenerateOptions;
+}
+
+export class Jobs {
+
+    protected static running = 0;
+    protected static processTimer: Maybe<NodeJS.Timeout>;
+
+    static async start(): Promise<void> {
+        const config = await getConfig();
+
+        // Jobs that were running when the server stopped are picked up again
+        const interrupted = await GenerateJob.updateMany({
+            server: config.server,
+            status: JobStatus.RUNNING
+        }, {
+            status: JobStatus.QUEUED
+        }).exec();
+        if (interrupted.nModified > 0) {
+            console.warn(warn("Re-queued " + interrupted.nModified + " interrupted jobs"));
+        }
+
+        this.processTimer = setInterval(() => Jobs.processQueue(config.server), PROCESS_INTERVAL);
+    }
+
+    static async submit(type: GenerateType, source: JobSource, options: GenerateOptions, client: ClientInfo): Promise<IGenerateJobDocument> {
+        const config = await getConfig();
+        const job = this.makeJob(config.server, type, source, options, client);
+        await job.save();
+        console.log(info(options.breadcrumb + " Queued " + type + " job " + job.jobId));
+        return job;
+    }
+
+    /**
+     * Queues all items of a batch, spaced out by the client's generate delay.
+     * Items which are duplicates of existing skins are completed right away and don't take up a slot.
+     */
+    static async submitBatch(items: BatchItem[], client: ClientInfo, delay: number): Promise<IGenerateJobDocument[]> {
+        const config = await getConfig();
+        const batchId = stripUuid(randomUuid());
+        const now = Date.now();
+
+        const jobs: IGenerateJobDocument[] = [];
+        let scheduled = 0;
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i];
+            const job = this.makeJob(config.server, item.type, item.source, item.options, client);
+            job.batchId = batchId;
+            job.index = i;
+
+            let duplicate: Maybe<DuplicateResult> = undefined;
+            try {
+                duplicate = await this.findDuplicate(item, client);
+            } catch (e) {
+                Sentry.captureException(e);
+            }
+            if (duplicate) {
+                job.status = JobStatus.COMPLETED;
+                job.skin = duplicate.skin.id;
+                job.duplicate = true;
+                job.duplicateSource = duplicate.source;
+                job.file = undefined;
+                job.startedAt = job.finishedAt = new Date();
+                Webhooks.notifyGenerated(client, item.options, new SavedSkin(duplicate.skin, true, undefined, duplicate.source)).catch(e => Sentry.captureException(e));
+            } else {
+                job.scheduledAt = new Date(now + (scheduled++ * delay * 1000));
+            }
+            jobs.push(job);
+        }
+
+        await GenerateJob.insertMany(jobs);
+        console.log(info("Queued batch " + batchId + " with " + jobs.length + " items (" + scheduled + " to generate)"));
+        return jobs;
+    }
+
+    protected static makeJob(server: string, type: GenerateType, source: JobSource, options: GenerateOptions, client: ClientInfo): IGenerateJobDocument {
+        const now = new Date();
+        return new GenerateJob(<IGenerateJobDocument>{
+            jobId: stripUuid(randomUuid()),
+            type: type,
+            status: JobStatus.QUEUED,
+            server: server,
+            breadcrumb: options.breadcrumbId,
+
+            url: source.url,
+            user: source.user,
+            file: source.file,
+
+            model: options.model,
+            variant: options.variant,
+            visibility: options.visibility,
+            name: options.name,
+            checkOnly: options.checkOnly,
+            normalize: options.normalize,
+            upgradeLegacy: options.upgradeLegacy,
+            allowSimilar: options.allowSimilar,
+
+            client: client,
+
+            createdAt: now,
+            scheduledAt: now
+        });
+    }
+
+    protected static async findDuplicate(item: BatchItem, client: ClientInfo): Promise<Maybe<DuplicateResult>> {
+        switch (item.type) {
+            case GenerateType.URL:
+                return await Generator.findDuplicateFromUrl(item.source.url!, item.options, item.type);
+            case GenerateType.UPLOAD: {
+                // invalid images are left for the job to fail on
+                const hash = await imgHash(item.source.file!).catch(() => undefined);
+                if (!hash) {
+                    return undefined;
+                }
+                const duplicate = await Generator.findDuplicateFromImageHash(hash, item.options, client, item.type);
+                if (duplicate || !item.options.allowSimilar) {
+                    return duplicate;
+                }
+                return await Generator.findSimilarDuplicate(await getSkinHashes(item.source.file!), item.options, client, item.type);
+            }
+            case GenerateType.USER:
+                return await Generator.findDuplicateFromUuid(item.source.user!, item.options, item.type);
+        }
+        return undefined;
+    }
+
+    protected static async processQueue(server: string): Promise<void> {
+        while (this.running < MAX_RUNNING_JOBS) {
+            let job: Maybe<IGenerateJobDocument>;
+            try {
+                job = await GenerateJob.claimNext(server);
+            } catch (e) {
+                Sentry.captureException(e);
+                return;
+            }
+            if (!job) {
+                return;
+            }
+            this.running++;
+            this.runJob(job)
+                .catch(e => Sentry.captureException(e))
+                .finally(() => this.running--);
+        }
+    }
+
+    protected static async runJob(job: IGenerateJobDocument): Promise<void> {
+        const options: GenerateOptions = {
+            model: job.model,
+            variant: job.variant,
+            visibility: job.visibility,
+            name: job.name,
+            checkOnly: job.checkOnly,
+            normalize: job.normalize,
+            upgradeLegacy: job.upgradeLegacy,
+            allowSimilar: job.allowSimilar,
+            breadcrumb: job.breadcrumb ? nextBreadColor()(job.breadcrumb) : undefined,
+            breadcrumbId: job.breadcrumb
+        };
+        console.log(debug(options.breadcrumb + " Running " + job.type + " job " + job.jobId));
+
+        try {
+            let skin: SavedSkin;
+            switch (job.type) {
+                case GenerateType.URL:
+                    skin = await Generator.generateFromUrlAndSave(job.url!, options, job.client);
+                    break;
+                case GenerateType.UPLOAD:
+                    skin = await Generator.generateFromUploadAndSave(job.file!, options, job.client);
+                    break;
+                case GenerateType.USER:
+                    skin = await Generator.generateFromUserAndSave(job.user!, options, job.client);
+                    break;
+                default:
+                    throw new MineSkinError("invalid_job", "Unknown job type " + job.type);
+            }
+            job.status = JobStatus.COMPLETED;
+            job.skin = skin.skin.id;
+            job.duplicate = skin.duplicate;
+            job.duplicateSource = skin.duplicateSource;
+            job.normalized = skin.changes;
+        } catch (e) {
+            job.status = JobStatus.FAILED;
+            if (e instanceof MineSkinError) {
+                job.errorType = e.name;
+                job.errorCode = e.code;
+                job.error = e.msg;
+            } else {
+                Sentry.captureException(e);
+                job.errorType = "Error";
+                job.errorCode = "unknown";
+                job.error = "An unexpected error occurred";
+            }
+        }
+        job.file = undefined;
+        job.finishedAt = new Date();
+        await job.save();
+        console.log(debug(options.breadcrumb + " Job " + job.jobId + " " + job.status));
+    }
+
+    static async toResponseJson(job: IGenerateJobDocument): Promise<JobInfo> {
+        const jobInfo: JobInfo = {
+            jobId: job.jobId,
+            type: job.type,
+            status: job.status,
+            timestamp: Math.round(job.createdAt.getTime() / 1000),
+            breadcrumb: job.breadcrumb
+        };
+        if (job.batchId) {
+            jobInfo.batchId = job.batchId;
+            jobInfo.index = job.index;
+        }
+        if (job.status === JobStatus.QUEUED) {
+            jobInfo.scheduled = Math.round(job.scheduledAt.getTime() / 1000);
+        }
+        if (job.status === JobStatus.COMPLETED && job.skin) {
+            const skin = await Caching.getSkinById(job.skin);
+            if (skin) {
+                jobInfo.skin = await new SavedSkin(skin, !!job.duplicate, job.normalized, job.duplicateSource as DuplicateSource).toResponseJson();
+            }
+        } else if (job.status === JobStatus.FAILED) {
+            jobInfo.errorType = job.errorType;
+            jobInfo.errorCode = job.errorCode;
+            jobInfo.error = job.error;
+        }
+        return jobInfo;
+    }
+
+    static async toBatchResponseJson(batchId: string, jobs: IGenerateJobDocument[]): Promise<BatchInfo> {
+        const count = (status: JobStatus) => jobs.filter(j => j.status === status).length;
+        return {
+            batchId: batchId,
+            total: jobs.length,
+            queued: count(JobStatus.QUEUED),
+            running: count(JobStatus.RUNNING),
+            completed: count(JobStatus.COMPLETED),
+            failed: count(JobStatus.FAILED),
+            jobs: await Promise.all(jobs.map(j => this.toResponseJson(j)))
+        };
+    }
+
+    static end() {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+}
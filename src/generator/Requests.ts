@@ -14,6 +14,8 @@ axios.defaults.headers["Accept"] = "application/json";
 axios.defaults.timeout = 20000;
 
 
+export type RequestQueue = "mojangAuth" | "mojangApi" | "mojangSession" | "minecraftServices" | "liveLogin";
+
 export class Requests {
 
     static readonly axiosInstance: AxiosInstance = axios.create({});
@@ -56,15 +58,8 @@ export class Requests {
 
     protected static metricsCollector = setInterval(async () => {
         const config = await getConfig();
-        const queues = new Map<string, JobQueue<AxiosRequestConfig, AxiosResponse>>([
-            ["mojangAuth", Requests.mojangAuthRequestQueue],
-            ["mojangApi", Requests.mojangApiRequestQueue],
-            ["mojangSession", Requests.mojangSessionRequestQueue],
-            ["minecraftServices", Requests.minecraftServicesRequestQueue],
-            ["liveLogin", Requests.liveLoginRequestQueue]
-        ]);
         const points: IPoint[] = [];
-        queues.forEach((queue, name) => {
+        Requests.getQueues().forEach((queue, name) => {
             points.push({
                 measurement: "queues",
                 tags: {
@@ -85,6 +80,23 @@ export class Requests {
         }
     }, 10000);
 
+    protected static getQueues(): Map<RequestQueue, JobQueue<AxiosRequestConfig, AxiosResponse>> {
+        return new Map<RequestQueue, JobQueue<AxiosRequestConfig, AxiosResponse>>([
+            ["mojangAuth", Requests.mojangAuthRequestQueue],
+            ["mojangApi", Requests.mojangApiRequestQueue],
+            ["mojangSession", Requests.mojangSessionRequestQueue],
+            ["minecraftServices", Requests.minecraftServicesRequestQueue],
+            ["liveLogin", Requests.liveLoginRequestQueue]
+        ]);
+    }
+
+    /**
+     * Number of requests waiting in the queue
+     */
+    public static getQueueSize(queue: RequestQueue): number {
+        return this.getQueues().get(queue)?.size ?? 0;
+    }
+
     protected static runAxiosRequest(request: AxiosRequestConfig, instance = this.axiosInstance): Promise<AxiosResponse> {
         return instance.request(request)
             .then(async (response) => this.processRequestMetric(response, request, response, instance))
@@ -0,0 +1,242 @@
+import * as http from "http";
+import * as https from "https";
+import * as dns from "dns";
+import * as net from "net";
+import { Readable } from "stream";
+import { URL } from "url";
+import { AxiosRequestConfig } from "axios";
+import { Requests } from "./Requests";
+import { MineSkinError } from "../typings";
+
+const ip = require("ip");
+
+// private, loopback, link-local, CGNAT, benchmarking, multicast & reserved ranges
+const BLOCKED_V4_SUBNETS = [
+    "0.0.0.0/8",
+    "10.0.0.0/8",
+    "100.64.0.0/10",
+    "127.0.0.0/8",
+    "169.254.0.0/16",
+    "172.16.0.0/12",
+    "192.0.0.0/24",
+    "192.0.2.0/24",
+    "192.168.0.0/16",
+    "198.18.0.0/15",
+    "198.51.100.0/24",
+    "203.0.113.0/24",
+    "224.0.0.0/4",
+    "240.0.0.0/4"
+].map(cidr => ip.cidrSubnet(cidr));
+
+// status codes of servers that don't implement HEAD properly
+const HEAD_FALLBACK_STATUS = [403, 404, 405, 501];
+
+export interface SafeFetchOptions {
+    /** Hard limit for the (decompressed) response body, 0 to discard the body **/
+    maxBytes: number;
+    /** Redirects to follow, every hop is checked again **/
+    maxRedirects: number;
+}
+
+export interface SafeResponse {
+    /** Final url, after following redirects **/
+    url: string;
+    status: number;
+    headers: any;
+    /** Size of the resource, from content-length or the total of a content-range **/
+    size?: number;
+    contentType?: string;
+    data: Buffer;
+}
+
+/**
+ * Fetches user provided urls without reaching internal services.
+ * Hosts are resolved and checked on every redirect hop and again when connecting (so DNS rebinding doesn't work),
+ * and the response body is limited while it's streamed.
+ */
+export class SafeFetch {
+
+    protected static readonly httpAgent = new http.Agent(<http.AgentOptions><any>{ lookup: safeLookup });
+    protected static readonly httpsAgent = new https.Agent(<https.AgentOptions><any>{ lookup: safeLookup });
+
+    /**
+     * HEAD request, with a ranged GET as fallback for servers that don't answer HEAD
+     */
+    static async head(url: string, options: SafeFetchOptions, config?: AxiosRequestConfig): Promise<SafeResponse> {
+        try {
+            const response = await this.request({ ...config, method: "HEAD", url: url }, { ...options, maxBytes: 0 });
+            if (!HEAD_FALLBACK_STATUS.includes(response.status)) {
+                return response;
+            }
+        } catch (e) {
+            if (e instanceof SafeFetchError) {
+                throw e;
+            }
+        }
+        return await this.request({
+            ...config,
+            method: "GET",
+            url: url,
+            headers: {
+                ...config?.headers,
+                "Range": "bytes=0-0"
+            }
+        }, { ...options, maxBytes: 0 });
+    }
+
+    /**
+     * GET request which fails for non-2xx responses
+     */
+    static async get(url: string, options: SafeFetchOptions, config?: AxiosRequestConfig): Promise<SafeResponse> {
+        const response = await this.request({ ...config, method: "GET", url: url }, options);
+        if (response.status < 200 || response.status >= 300) {
+            throw new SafeFetchError("http_error", "Request failed with status code " + response.status);
+        }
+        return response;
+    }
+
+    /**
+     * Runs the request, following redirects up to the limit. Redirect responses past that are returned as-is.
+     */
+    static async request(config: AxiosRequestConfig, options: SafeFetchOptions): Promise<SafeResponse> {
+        let url = config.url!;
+        for (let redirects = 0; ; redirects++) {
+            this.validateUrl(url);
+            const response = await Requests.axiosInstance.request({
+                ...config,
+                url: url,
+                responseType: "stream",
+                maxRedirects: 0,
+                validateStatus: () => true,
+                httpAgent: this.httpAgent,
+                httpsAgent: this.httpsAgent
+            });
+            const stream = response.data as Readable;
+            const location = response.headers["location"];
+            if (response.status >= 300 && response.status < 400 && location && redirects < options.maxRedirects) {
+                stream.destroy();
+                url = new URL(location, url).href;
+                continue;
+            }
+
+            const contentLength = parseInt(response.headers["content-length"]);
+            const range = /\/(\d+)$/.exec(response.headers["content-range"] || "");
+            const data = config.method === "HEAD" || options.maxBytes <= 0
+                ? discardBody(stream)
+                : await readBody(stream, options.maxBytes, contentLength);
+            return {
+                url: url,
+                status: response.status,
+                headers: response.headers,
+                size: response.status === 206 && range ? parseInt(range[1]) : (isNaN(contentLength) ? undefined : contentLength),
+                contentType: response.headers["content-type"],
+                data: data
+            };
+        }
+    }
+
+    static validateUrl(urlStr: string): URL {
+        let url: URL;
+        try {
+            url = new URL(urlStr);
+        } catch (e) {
+            throw new SafeFetchError("invalid_url", "Invalid url");
+        }
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            throw new SafeFetchError("invalid_url", "Unsupported protocol " + url.protocol);
+        }
+        if (url.username || url.password) {
+            throw new SafeFetchError("invalid_url", "Urls with credentials are not allowed");
+        }
+        // IP literals never go through the lookup
+        const host = url.hostname.replace(/^\[(.*)]$/, "$1");
+        if (net.isIP(host) && isBlockedAddress(host)) {
+            throw new SafeFetchError("blocked_address", "Address " + host + " is not allowed");
+        }
+        return url;
+    }
+
+}
+
+export function isBlockedAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        return BLOCKED_V4_SUBNETS.some(subnet => subnet.contains(address));
+    }
+    if (!net.isIPv6(address)) {
+        return true;
+    }
+    const bytes: Buffer = ip.toBuffer(address);
+    const embeddedV4 = ip.toString(bytes, 12, 4);
+    const prefixIsZero = (length: number) => bytes.subarray(0, length).every(b => b === 0);
+    if (prefixIsZero(10) && bytes[10] === 0xff && bytes[11] === 0xff) {
+        // IPv4-mapped
+        return isBlockedAddress(embeddedV4);
+    }
+    if (bytes.readUInt32BE(0) === 0x0064ff9b && bytes.subarray(4, 12).every(b => b === 0)) {
+        // NAT64
+        return isBlockedAddress(embeddedV4);
+    }
+    if (prefixIsZero(12)) {
+        // unspecified, loopback & IPv4-compatible
+        return true;
+    }
+    return (bytes[0] & 0xfe) === 0xfc // unique local
+        || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) // link-local
+        || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) // site-local
+        || bytes[0] === 0xff; // multicast
+}
+
+function safeLookup(hostname: string, options: any, callback: (err: any, address?: any, family?: number) => void): void {
+    dns.lookup(hostname, options, (err: any, address: any, family?: number) => {
+        if (err) {
+            callback(err, address, family);
+            return;
+        }
+        const addresses: string[] = Array.isArray(address) ? address.map(a => a.address) : [address];
+        const blocked = addresses.find(a => isBlockedAddress(a));
+        if (blocked) {
+            callback(new SafeFetchError("blocked_address", "Host " + hostname + " resolves to a blocked address"));
+            return;
+        }
+        callback(null, address, family);
+    });
+}
+
+function discardBody(stream: Readable): Buffer {
+    stream.destroy();
+    return Buffer.alloc(0);
+}
+
+function readBody(stream: Readable, maxBytes: number, contentLength: number): Promise<Buffer> {
+    if (contentLength > maxBytes) {
+        stream.destroy();
+        return Promise.reject(new SafeFetchError("response_too_large", "Response is larger than " + maxBytes + " bytes"));
+    }
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let length = 0;
+        stream.on("data", (chunk: Buffer) => {
+            length += chunk.length;
+            if (length > maxBytes) {
+                // don't trust the content-length
+                stream.destroy();
+                reject(new SafeFetchError("response_too_large", "Response is larger than " + maxBytes + " bytes"));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+        stream.on("error", reject);
+    });
+}
+
+export class SafeFetchError extends MineSkinError {
+    constructor(code: string, msg: string) {
+        super(code, msg, 400);
+        Object.setPrototypeOf(this, SafeFetchError.prototype);
+    }
+
+    get name(): string {
+        return 'SafeFetchError';
+    }
+}
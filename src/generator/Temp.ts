@@ -1,14 +1,17 @@
 import * as fs from "fs";
 import * as tmp from "tmp";
 import { DirOptions, FileOptions } from "tmp";
-import { Stream } from "stream";
-import { Requests } from "./Requests";
+import { SafeFetch } from "./SafeFetch";
 import { UploadedFile } from "express-fileupload";
 
 export const URL_DIR = "/tmp/url";
 export const UPL_DIR = "/tmp/upl";
 export const USR_DIR = "/tmp/usr";
 export const MOJ_DIR = "/tmp/moj";
+export const RENDER_DIR = "/tmp/render";
+
+const MAX_DOWNLOAD_SIZE = 1000000; // 1MB
+const MAX_DOWNLOAD_REDIRECTS = 5;
 
 export class TempDir {
     constructor(public readonly path: string, private readonly removeCallback: () => void) {
@@ -62,17 +65,16 @@ export class Temp {
 
     // UTIL
 
-    public static async downloadImage(url: string, tmpFile?: TempFile): Promise<TempFile> {
+    public static async downloadImage(url: string, tmpFile?: TempFile, maxBytes: number = MAX_DOWNLOAD_SIZE): Promise<TempFile> {
         if (!tmpFile) {
             tmpFile = await this.file();
         }
         try {
-            const response = await Requests.axiosInstance.request({
-                method: "GET",
-                url: url,
-                responseType: "stream"
+            const response = await SafeFetch.get(url, {
+                maxBytes: maxBytes,
+                maxRedirects: MAX_DOWNLOAD_REDIRECTS
             });
-            (response.data as Stream).pipe(fs.createWriteStream(tmpFile.path))
+            await fs.promises.writeFile(tmpFile.path, response.data);
         } catch (e) {
             if (tmpFile) {
                 tmpFile.remove();
@@ -82,12 +84,17 @@ export class Temp {
         return tmpFile;
     }
 
-    public static async copyUploadedImage(uploadedFile: UploadedFile, tmpFile?: TempFile): Promise<TempFile> {
+    public static async copyUploadedImage(uploadedFile: UploadedFile | Buffer, tmpFile?: TempFile): Promise<TempFile> {
         if (!tmpFile) {
             tmpFile = await this.file();
         }
         try {
-            await uploadedFile.mv(tmpFile.path);
+            if (Buffer.isBuffer(uploadedFile)) {
+                // stored upload of a queued job
+                await fs.promises.writeFile(tmpFile.path, uploadedFile);
+            } else {
+                await uploadedFile.mv(tmpFile.path);
+            }
         } catch (e) {
             if (tmpFile) {
                 tmpFile.remove();
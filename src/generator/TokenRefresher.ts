@@ -0,0 +1,110 @@
+import * as Sentry from "@sentry/node";
+import { Account } from "../database/schemas";
+import { IAccountDocument } from "../typings";
+import { AccountType } from "../typings/db/IAccountDocument";
+import { getConfig } from "../typings/Configs";
+import { Maybe } from "../util";
+import { debug, warn } from "../util/colors";
+import { MineSkinMetrics } from "../util/metrics";
+import { Notifications } from "../util/Notifications";
+import { AuthenticationError, Microsoft, Mojang } from "./Authentication";
+import { Requests } from "./Requests";
+
+const PROCESS_INTERVAL = 60000;
+const REFRESHES_PER_RUN = 5;
+
+// refresh tokens that expire within this window, before authenticate() would refresh them during a request
+const REFRESH_WINDOW = 60 * 60; // 1 hour
+// accounts that failed to refresh aren't tried again before this
+const RETRY_DELAY = 30 * 60; // 30 minutes
+// accounts used or selected more recently than this might still be in a generate request
+const IDLE_TIME = 5 * 60; // 5 minutes
+// generate requests go first, so nothing is refreshed while the auth queues are backed up
+const MAX_QUEUE_SIZE = 2;
+
+/**
+ * Refreshes access tokens of this server's (and the shared) accounts in the background, so generate requests don't have to wait for it
+ */
+export class TokenRefresher {
+
+    protected static processing = false;
+    protected static processTimer: Maybe<NodeJS.Timeout>;
+
+    static async start(): Promise<void> {
+        const config = await getConfig();
+        this.processTimer = setInterval(() => TokenRefresher.processExpiring(config.server), PROCESS_INTERVAL);
+    }
+
+    protected static async processExpiring(server: string): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+        try {
+            for (let i = 0; i < REFRESHES_PER_RUN; i++) {
+                if (this.queuesBusy()) {
+                    console.log(debug("[TokenRefresher] Request queues are busy, postponing token refreshes"));
+                    return;
+                }
+                const time = Math.floor(Date.now() / 1000);
+                const account = await Account.claimExpiringToken(server, time + REFRESH_WINDOW, time - RETRY_DELAY, time - IDLE_TIME);
+                if (!account) {
+                    return;
+                }
+                await this.refresh(account);
+            }
+        } catch (e) {
+            Sentry.captureException(e);
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    protected static queuesBusy(): boolean {
+        return Requests.getQueueSize("mojangAuth") > MAX_QUEUE_SIZE
+            || Requests.getQueueSize("liveLogin") > MAX_QUEUE_SIZE
+            || Requests.getQueueSize("minecraftServices") > MAX_QUEUE_SIZE;
+    }
+
+    protected static async refresh(account: IAccountDocument): Promise<void> {
+        const metrics = await MineSkinMetrics.get();
+        const metric = metrics.authentication
+            .tag("server", metrics.config.server)
+            .tag("type", account.getAccountType())
+            .tag("account", account.id)
+            .tag("trigger", "background");
+        console.log(debug("[TokenRefresher] Refreshing access token of " + account.toSimplifiedString() + ", expires in " + Math.round(((account.accessTokenExpiration || 0) - Date.now() / 1000) / 60) + " minutes"));
+        try {
+            let result: IAccountDocument;
+            if (account.getAccountType() === AccountType.MICROSOFT || account.microsoftAccount) {
+                result = await Microsoft.refreshAccessToken(account);
+            } else {
+                result = await Mojang.refreshAccessToken(account);
+            }
+            metric
+                .tag("result", "success")
+                .tag("source", result.accessTokenSource)
+                .inc();
+        } catch (e) {
+            console.warn(warn("[TokenRefresher] Failed to refresh access token of " + account.toSimplifiedString()));
+            metric.tag("result", "fail");
+            if (e instanceof AuthenticationError) {
+                metric.tag("reason", e.code);
+                Notifications.notifyRefreshFailed(account, e);
+            } else {
+                metric.tag("reason", e.name);
+                Sentry.captureException(e);
+            }
+            metric.inc();
+        } finally {
+            await Account.releaseLock(account);
+        }
+    }
+
+    static end() {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+}
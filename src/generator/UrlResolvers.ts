@@ -0,0 +1,176 @@
+import * as Sentry from "@sentry/node";
+import { Severity } from "@sentry/node";
+import { URL } from "url";
+import { getConfig } from "../typings/Configs";
+import { Bread } from "../typings/Bread";
+import { Maybe } from "../util";
+import { debug, warn } from "../util/colors";
+import { SafeFetch } from "./SafeFetch";
+
+const MAX_PAGE_SIZE = 1000000; // 1MB
+const MAX_PAGE_REDIRECTS = 3;
+
+/**
+ * Turns links to skin pages/viewers into urls of the actual image
+ */
+export interface UrlResolver {
+    readonly name: string;
+
+    match(url: URL): boolean;
+
+    /**
+     * @return the image url, or undefined if it couldn't be resolved
+     */
+    resolve(url: URL): Promise<Maybe<string>>;
+}
+
+export interface ResolvedUrl {
+    original: string;
+    url: string;
+    /** Name of the resolver that matched, if any **/
+    resolver?: string;
+}
+
+/**
+ * Resolver for urls that can be rewritten without any requests
+ */
+class RegexResolver implements UrlResolver {
+    constructor(public readonly name: string, private readonly pattern: RegExp, private readonly replacement: string) {
+    }
+
+    match(url: URL): boolean {
+        return this.pattern.test(url.href);
+    }
+
+    async resolve(url: URL): Promise<Maybe<string>> {
+        return url.href.replace(this.pattern, this.replacement);
+    }
+}
+
+class GitHubResolver implements UrlResolver {
+    readonly name = "github";
+
+    match(url: URL): boolean {
+        return url.hostname === "github.com" && /^\/[^/]+\/[^/]+\/(blob|raw)\/.+/.test(url.pathname);
+    }
+
+    async resolve(url: URL): Promise<Maybe<string>> {
+        // /<owner>/<repo>/blob/<ref>/<path> -> raw.githubusercontent.com/<owner>/<repo>/<ref>/<path>
+        const [, owner, repo, , ...rest] = url.pathname.split("/");
+        return `https://raw.githubusercontent.com/${ owner }/${ repo }/${ rest.join("/") }`;
+    }
+}
+
+class DiscordResolver implements UrlResolver {
+    readonly name = "discord";
+
+    match(url: URL): boolean {
+        return (url.hostname === "cdn.discordapp.com" || url.hostname === "media.discordapp.net") && url.pathname.startsWith("/attachments/");
+    }
+
+    async resolve(url: URL): Promise<Maybe<string>> {
+        // the media proxy re-encodes & resizes images, the cdn serves the original upload
+        const resolved = new URL(url.href);
+        resolved.hostname = "cdn.discordapp.com";
+        for (const param of ["format", "width", "height", "quality"]) {
+            resolved.searchParams.delete(param);
+        }
+        return resolved.href;
+    }
+}
+
+class PlanetMinecraftResolver implements UrlResolver {
+    readonly name = "planetminecraft";
+
+    match(url: URL): boolean {
+        return /(^|\.)planetminecraft\.com$/.test(url.hostname) && /^\/skin\/[^/]+\/?$/.test(url.pathname);
+    }
+
+    async resolve(url: URL): Promise<Maybe<string>> {
+        // the skin page links to the texture download
+        const response = await SafeFetch.get(url.href, {
+            maxBytes: MAX_PAGE_SIZE,
+            maxRedirects: MAX_PAGE_REDIRECTS
+        }, {
+            headers: {
+                "Accept": "text/html"
+            }
+        });
+        const html = response.data.toString("utf8");
+        const link = /href="([^"]*\/skin\/[^"/]+\/download\/[^"]*)"/.exec(html);
+        if (!link) {
+            return undefined;
+        }
+        return new URL(link[1].replace(/&amp;/g, "&"), response.url).href;
+    }
+}
+
+export class UrlResolvers {
+
+    protected static readonly resolvers: UrlResolver[] = [
+        new RegexResolver("imgur", /https?:\/\/imgur\.com\/(.+)/, 'https://i.imgur.com/$1.png'),
+        new RegexResolver("namemc", /https?:\/\/.+namemc\.com\/skin\/(.+)/, 'https://namemc.com/texture/$1.png'),
+        new RegexResolver("skindex", /https?:\/\/.+minecraftskins\.com\/skin\/(\d+)(\/.*)?$/, 'https://www.minecraftskins.com/skin/download/$1'),
+        new RegexResolver("novaskin", /https?:\/\/minecraft\.novaskin\.me\/skin\/(\d+)\/.+/, 'https://minecraft.novaskin.me/skin/$1/download'),
+        new GitHubResolver(),
+        new DiscordResolver(),
+        new PlanetMinecraftResolver()
+    ];
+
+    static register(resolver: UrlResolver): void {
+        this.resolvers.push(resolver);
+    }
+
+    static get names(): string[] {
+        return this.resolvers.map(r => r.name);
+    }
+
+    /**
+     * Finds the first enabled resolver for the url
+     */
+    static async find(urlStr: string): Promise<Maybe<UrlResolver>> {
+        let url: URL;
+        try {
+            url = new URL(urlStr);
+        } catch (e) {
+            return undefined;
+        }
+        const config = await getConfig();
+        return this.resolvers
+            .filter(r => !config.urlResolvers || config.urlResolvers.includes(r.name))
+            .find(r => r.match(url));
+    }
+
+    static async resolve(urlStr: string, bread?: Bread): Promise<ResolvedUrl> {
+        const resolver = await this.find(urlStr);
+        if (!resolver) {
+            return {
+                original: urlStr,
+                url: urlStr
+            };
+        }
+        let resolved: Maybe<string> = undefined;
+        try {
+            resolved = await resolver.resolve(new URL(urlStr));
+        } catch (e) {
+            Sentry.captureException(e, {
+                level: Severity.Warning,
+                tags: {
+                    resolver: resolver.name
+                }
+            });
+        }
+        if (!resolved) {
+            console.warn(warn(`${ bread?.breadcrumb } Failed to resolve ${ urlStr } using ${ resolver.name }`));
+            resolved = urlStr;
+        } else if (resolved !== urlStr) {
+            console.log(debug(`${ bread?.breadcrumb } Resolved ${ urlStr } -> ${ resolved } (${ resolver.name })`));
+        }
+        return {
+            original: urlStr,
+            url: resolved,
+            resolver: resolver.name
+        };
+    }
+
+}
@@ -12,7 +12,7 @@ import RotatingFileStream from "rotating-file-stream";
 import * as morgan from "morgan";
 import * as bodyParser from "body-parser";
 import * as fileUpload from "express-fileupload";
-import { accountManagerRoute, apiKeyRoute, generateRoute, getRoute, renderRoute, testerRoute, utilRoute } from "./routes";
+import { accountManagerRoute, adminRoute, apiKeyRoute, generateRoute, getRoute, renderRoute, skinRoute, testerRoute, utilRoute } from "./routes";
 import { MOJ_DIR, UPL_DIR, URL_DIR } from "./generator/Temp";
 import { getConfig, getLocalConfig, MineSkinConfig } from "./typings/Configs";
 import { isBreadRequest, MineSkinError } from "./typings";
@@ -21,6 +21,12 @@ import { info, warn } from "./util/colors";
 import { corsMiddleware, getAndValidateRequestApiKey } from "./util";
 import { AuthenticationError } from "./generator/Authentication";
 import { Generator, GeneratorError } from "./generator/Generator";
+import { Jobs } from "./generator/Jobs";
+import { Webhooks } from "./util/Webhooks";
+import { TokenRefresher } from "./generator/TokenRefresher";
+import { ReEncryption } from "./util/ReEncryption";
+import { AccountRebalancer } from "./generator/AccountRebalancer";
+import { RenderCache } from "./util/RenderCache";
 import gitsha from "@inventivetalent/gitsha";
 import { GitConfig } from "@inventivetalent/gitconfig";
 import { GithubWebhook } from "@inventivetalent/express-github-webhook/dist/src";
@@ -68,6 +74,7 @@ async function init() {
             fs.mkdirSync(MOJ_DIR);
         } catch (e) {
         }
+        await RenderCache.init();
     }
 
     {
@@ -199,6 +206,29 @@ async function init() {
         await connectToMongo(config);
     }
 
+    {
+        console.log("Starting job processor");
+        await Jobs.start();
+    }
+
+    {
+        console.log("Starting webhook delivery");
+        await Webhooks.start();
+    }
+
+    {
+        console.log("Starting token refresher");
+        await TokenRefresher.start();
+    }
+
+    if (config.master) {
+        console.log("Starting credential re-encryption");
+        await ReEncryption.start();
+
+        console.log("Starting account rebalancer");
+        await AccountRebalancer.start();
+    }
+
     {
         console.log("Registering routes");
 
@@ -220,6 +250,8 @@ async function init() {
         testerRoute.register(app);
         utilRoute.register(app);
         apiKeyRoute.register(app);
+        skinRoute.register(app);
+        adminRoute.register(app);
 
     }
 
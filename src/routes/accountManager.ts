@@ -16,6 +16,10 @@ import { info, warn } from "../util/colors";
 import * as Sentry from "@sentry/node";
 import { Time } from "@inventivetalent/time";
 import { PendingDiscordAccountLink } from "../typings/DiscordAccountLink";
+import { Email } from "../util/Email";
+import * as crypto from "crypto";
+
+const MAX_EMAIL_CODE_ATTEMPTS = 5;
 
 export const register = (app: Application, config: MineSkinConfig) => {
 
@@ -177,6 +181,148 @@ export const register = (app: Application, config: MineSkinConfig) => {
         });
     })
 
+    // Login without sharing the password, only the refresh token is stored
+
+    app.post("/accountManager/microsoft/device/start", async (req: AccountManagerRequest, res: Response) => {
+        await regenerateSession(req);
+        if (!req.body["email"]) {
+            res.status(400).json({ error: "missing email" });
+            return;
+        }
+
+        const config = await getConfig();
+        const existingServer = await Authentication.getExistingAccountServer(req.body["email"]);
+        if (existingServer && existingServer !== config.server) {
+            res.json({
+                success: false,
+                switchToServer: {
+                    server: existingServer,
+                    host: `${ existingServer }.api.mineskin.org`
+                }
+            })
+            return;
+        }
+
+        const deviceCode = await Microsoft.startDeviceCodeLogin();
+        req.session.deviceLogin = {
+            email: req.body["email"],
+            deviceCode: deviceCode.deviceCode,
+            expires: Math.floor(Date.now() / 1000) + deviceCode.expiresIn
+        };
+
+        res.json({
+            success: true,
+            userCode: deviceCode.userCode,
+            verificationUri: deviceCode.verificationUri,
+            expiresIn: deviceCode.expiresIn,
+            interval: deviceCode.interval
+        });
+    })
+
+    app.post("/accountManager/microsoft/device/poll", async (req: AccountManagerRequest, res: Response) => {
+        const deviceLogin = req.session.deviceLogin;
+        if (!deviceLogin) {
+            res.status(400).json({ error: "no device login started" });
+            return;
+        }
+        if (deviceLogin.expires < Date.now() / 1000) {
+            delete req.session.deviceLogin;
+            res.status(400).json({ error: "device code expired" });
+            return;
+        }
+
+        let microsoftInfo: Maybe<XboxInfo> = undefined;
+        const minecraftAccessToken = await Microsoft.pollDeviceCodeLogin(deviceLogin.deviceCode, xboxInfo => {
+            microsoftInfo = xboxInfo;
+        });
+        if (!minecraftAccessToken) {
+            res.json({
+                success: false,
+                pending: true
+            });
+            return;
+        }
+        delete req.session.deviceLogin;
+
+        // the email was only entered by the user, so it can't belong to a different microsoft account than the one that logged in
+        const microsoftUserId = (microsoftInfo as Maybe<XboxInfo>)?.userId;
+        if (!microsoftUserId) {
+            throw new AuthenticationError(AuthError.MICROSOFT_AUTH_FAILED, "Missing microsoft user id", undefined);
+        }
+        const mismatch = await Account.findOne({
+            $or: [
+                { email: deviceLogin.email, microsoftUserId: { $ne: microsoftUserId } },
+                { microsoftUserId: microsoftUserId, email: { $ne: deviceLogin.email } }
+            ]
+        }, "_id").exec();
+        if (mismatch) {
+            res.status(400).json({ error: "email doesn't match the microsoft account" });
+            return;
+        }
+
+        const ownsMinecraft = await Microsoft.checkGameOwnership(minecraftAccessToken)
+            .catch(err => {
+                if (err.response) {
+                    throw new AuthenticationError(AuthError.DOES_NOT_OWN_MINECRAFT, "Failed to check game ownership", undefined, err);
+                }
+                throw err;
+            })
+        if (!ownsMinecraft) {
+            throw new AuthenticationError(AuthError.DOES_NOT_OWN_MINECRAFT, "User does not own minecraft", undefined);
+        }
+
+        // an account that already has this email + microsoft id was verified by an earlier login, otherwise the user has to prove they own the email
+        const existing = await Account.findOne({ email: deviceLogin.email, microsoftUserId: microsoftUserId }, "_id").exec();
+        let emailCode: Maybe<string> = undefined;
+        if (!existing) {
+            emailCode = `${ crypto.randomInt(0, 1000000) }`.padStart(6, "0");
+            await Email.sendEmail(deviceLogin.email, "Your MineSkin verification code is " + emailCode + "\n\nIf you didn't add an account to MineSkin, you can ignore this email.", "MineSkin Verification Code");
+        }
+
+        req.session.account = {
+            type: AccountType.MICROSOFT,
+            email: deviceLogin.email,
+            emailVerified: !!existing,
+            emailCodeHash: emailCode ? sha256(emailCode) : undefined,
+            emailCodeAttempts: 0,
+            token: minecraftAccessToken,
+            microsoftInfo: microsoftInfo,
+            passwordless: true
+        };
+
+        res.json({
+            success: true,
+            token: minecraftAccessToken,
+            verifyEmail: !existing
+        });
+    })
+
+    app.post("/accountManager/microsoft/device/verifyEmail", async (req: AccountManagerRequest, res: Response) => {
+        const account = req.session.account;
+        if (!account || !account.passwordless) {
+            res.status(400).json({ error: "invalid session" });
+            return;
+        }
+        if (account.emailVerified) {
+            res.json({ success: true });
+            return;
+        }
+        if (!account.emailCodeHash || (account.emailCodeAttempts ?? 0) >= MAX_EMAIL_CODE_ATTEMPTS) {
+            delete req.session.account;
+            res.status(400).json({ error: "too many attempts" });
+            return;
+        }
+        account.emailCodeAttempts = (account.emailCodeAttempts ?? 0) + 1;
+        if (!req.body["code"] || sha256(`${ req.body["code"] }`) !== account.emailCodeHash) {
+            res.status(400).json({ error: "invalid code" });
+            return;
+        }
+        account.emailVerified = true;
+        delete account.emailCodeHash;
+
+        res.json({ success: true });
+    })
+
 
     /// INDEPENDENT
 
@@ -263,12 +409,7 @@ export const register = (app: Application, config: MineSkinConfig) => {
                 account.multiSecurity = req.session.account.mojangInfo.securityAnswers;
             }
         } else if (req.session.account.type === AccountType.MICROSOFT && req.session.account.microsoftInfo) {
-            if (req.session.account.microsoftInfo.accessToken) {
-                account.microsoftAccessToken = req.session.account.microsoftInfo.accessToken;
-            }
-            if (req.session.account.microsoftInfo.refreshToken) {
-                account.microsoftRefreshToken = req.session.account.microsoftInfo.refreshToken;
-            }
+            await Microsoft.storeXboxInfo(account, req.session.account.microsoftInfo);
         }
         account.discordMessageSent = false;
         account.emailSent = false;
@@ -359,19 +500,26 @@ export const register = (app: Application, config: MineSkinConfig) => {
 
     app.post("/accountManager/confirmAccountSubmission", async (req: AccountManagerRequest, res: Response) => {
         if (!validateSessionAndToken(req, res)) return;
-        if (!req.body["email"] || !req.body["password"]) {
-            res.status(400).json({ error: "missing credentials" });
-            return;
-        }
         if (!req.session || !req.session.account) {
             res.status(400).json({ error: "invalid session" });
             return;
         }
+        // accounts added via device code don't have a password
+        const passwordless = !!req.session.account.passwordless;
+        if (!req.body["email"] || (!passwordless && !req.body["password"])) {
+            res.status(400).json({ error: "missing credentials" });
+            return;
+        }
         if (req.body["email"] !== req.session.account.email) {
             res.status(400).json({ error: "invalid session" });
             return;
         }
-        if (sha512(req.body["password"]) !== req.session.account.passwordHash) {
+        // device code logins don't prove the email, so it has to be verified separately
+        if (passwordless && !req.session.account.emailVerified) {
+            res.status(400).json({ error: "email not verified" });
+            return;
+        }
+        if (!passwordless && sha512(req.body["password"]) !== req.session.account.passwordHash) {
             res.status(400).json({ error: "invalid session" });
             return;
         }
@@ -386,7 +534,7 @@ export const register = (app: Application, config: MineSkinConfig) => {
         const profileValidation = await getAndValidateMojangProfile(req.session.account!.token!, req.body["uuid"]);
         if (!profileValidation.valid || !profileValidation.profile) return;
 
-        if (!req.body["checks"] || !req.body["checks"]["readTerms"] || !req.body["checks"]["acceptSkins"] || !req.body["checks"]["acceptPassword"]) {
+        if (!req.body["checks"] || !req.body["checks"]["readTerms"] || !req.body["checks"]["acceptSkins"] || (!passwordless && !req.body["checks"]["acceptPassword"])) {
             res.status(400).json({ error: "invalid checks" });
             return;
         }
@@ -410,7 +558,7 @@ export const register = (app: Application, config: MineSkinConfig) => {
             username: req.session.account.email,
             email: req.session.account.email,
 
-            passwordNew: await Encryption.encrypt(base64decode(req.body["password"])),
+            passwordNew: passwordless ? undefined : await Encryption.encrypt(base64decode(req.body["password"])),
 
             uuid: req.session.account.uuid,
             playername: profileValidation.profile.name,
@@ -432,14 +580,13 @@ export const register = (app: Application, config: MineSkinConfig) => {
             errorCounter: 0,
             totalErrorCounter: 0,
             successCounter: 0,
-            totalSuccessCounter: 0,
-            ev: 0 //TODO
+            totalSuccessCounter: 0
         });
+        account.getEV();
         if (req.session.account.type === AccountType.MICROSOFT) {
-            account.microsoftUserId = req.session.account.microsoftInfo?.userId;
-            account.microsoftAccessToken = req.session.account.microsoftInfo?.accessToken;
-            account.microsoftRefreshToken = req.session.account.microsoftInfo?.refreshToken;
-            account.minecraftXboxUsername = req.session.account.microsoftInfo?.username;
+            if (req.session.account.microsoftInfo) {
+                await Microsoft.storeXboxInfo(account, req.session.account.microsoftInfo);
+            }
         } else if (req.session.account!.type === AccountType.MOJANG) {
             account.multiSecurity = req.session.account.mojangInfo?.securityAnswers;
         }
@@ -747,6 +894,7 @@ type AccountManagerRequest = MineSkinRequest & {
 
 type AccountManagerSession = session.Session & {
     account?: SessionAccountInfo;
+    deviceLogin?: DeviceLoginInfo;
 }
 
 interface SessionAccountInfo {
@@ -755,6 +903,12 @@ interface SessionAccountInfo {
     passwordHash?: string;
     token?: string;
     uuid?: string;
+    /** Logged in via device code, without a password **/
+    passwordless?: boolean;
+    /** Whether the email of a passwordless login belongs to the user **/
+    emailVerified?: boolean;
+    emailCodeHash?: string;
+    emailCodeAttempts?: number;
 
     mojangInfo?: MojangAccountInfo;
     microsoftInfo?: MicrosoftAccountInfo;
@@ -767,6 +921,12 @@ interface MojangAccountInfo {
 interface MicrosoftAccountInfo extends XboxInfo {
 }
 
+interface DeviceLoginInfo {
+    email: string;
+    deviceCode: string;
+    expires: number;
+}
+
 
 // other
 
@@ -0,0 +1,321 @@
+import { Application, Request, Response } from "express";
+import * as crypto from "crypto";
+import { Account, AdminAuditLog } from "../database/schemas";
+import { IAccountDocument, MineSkinError } from "../typings";
+import { AccountType } from "../typings/db/IAccountDocument";
+import { AdminAction } from "../typings/db/IAdminAuditLogDocument";
+import { getConfig } from "../typings/Configs";
+import { nextBreadColor } from "../typings/Bread";
+import { Authentication } from "../generator/Authentication";
+import { getHealthScore, RECENT_ERROR_WINDOW } from "../util/accountHealth";
+import { getIp, Maybe, md5 } from "../util";
+import { info } from "../util/colors";
+
+// health isn't stored (ev is only updated when an account gets selected), so it's computed for every matching account
+const LIST_SORT_FIELDS = ["id", "lastUsed", "errorCounter", "health"];
+const HEALTH_FIELDS = "_id id totalSuccessCounter totalErrorCounter errorCounter recentErrors accessToken accessTokenExpiration accessTokenSource timeAdded";
+const SERVER_PATTERN = /^[a-zA-Z0-9-]{1,32}$/;
+
+interface ActionResult {
+    before?: any;
+    after?: any;
+}
+
+export const register = (app: Application) => {
+
+    app.get("/admin/accounts", async (req: Request, res: Response) => {
+        if (!await getAdminName(req, res)) return;
+
+        const page = Math.max(parseInt(req.query["page"] as string) || 1, 1);
+        const size = Math.min(Math.max(parseInt(req.query["size"] as string) || 50, 1), 100);
+        const sortStr = `${ req.query["sort"] ?? "id" }`;
+        if (!LIST_SORT_FIELDS.includes(sortStr)) {
+            res.status(400).json({ error: "invalid sort" });
+            return;
+        }
+
+        const query: any = {};
+        if (req.query.hasOwnProperty("enabled")) {
+            const enabled = `${ req.query["enabled"] }`;
+            if (enabled !== "true" && enabled !== "false") {
+                res.status(400).json({ error: "invalid enabled filter" });
+                return;
+            }
+            query.enabled = enabled === "true";
+        }
+        if (req.query.hasOwnProperty("server")) {
+            query.requestServer = `${ req.query["server"] }`;
+        }
+        if (req.query.hasOwnProperty("type")) {
+            const type = `${ req.query["type"] }` as AccountType;
+            if (!Object.values(AccountType).includes(type)) {
+                res.status(400).json({ error: "invalid type" });
+                return;
+            }
+            query.accountType = type;
+        }
+        if (req.query.hasOwnProperty("errors")) {
+            // accounts that are currently failing
+            query.errorCounter = { $gt: 0 };
+        }
+
+        const time = Math.floor(Date.now() / 1000);
+        const total = await Account.countDocuments(query).exec();
+        let accounts: IAccountDocument[];
+        if (sortStr === "health") {
+            const scores = (await Account.find(query, HEALTH_FIELDS).lean().exec())
+                .map(a => ({ _id: a._id, id: a.id, score: getHealthScore(a as IAccountDocument, time) }))
+                .sort((a, b) => b.score - a.score || a.id - b.id)
+                .slice((page - 1) * size, page * size);
+            const byId = new Map<string, IAccountDocument>();
+            for (const account of await Account.find({ _id: { $in: scores.map(s => s._id) } }).exec()) {
+                byId.set(`${ account._id }`, account);
+            }
+            accounts = scores.map(s => byId.get(`${ s._id }`)).filter(a => !!a) as IAccountDocument[];
+        } else {
+            accounts = await Account.find(query)
+                .sort({ [sortStr]: sortStr === "id" ? 1 : -1 })
+                .skip((page - 1) * size)
+                .limit(size)
+                .exec();
+        }
+        res.json({
+            accounts: accounts.map(a => toAdminInfo(a, time)),
+            page: {
+                index: page,
+                size: size,
+                total: total
+            }
+        });
+    })
+
+    app.get("/admin/accounts/:id", async (req: Request, res: Response) => {
+        if (!await getAdminName(req, res)) return;
+        const account = await findAccount(req, res);
+        if (!account) return;
+        res.json(toAdminInfo(account, Math.floor(Date.now() / 1000)));
+    })
+
+    app.post("/admin/accounts/:id/enable", async (req: Request, res: Response) => {
+        await runAction(req, res, AdminAction.ENABLE, account => setFields(account, { enabled: true }));
+    })
+
+    app.post("/admin/accounts/:id/disable", async (req: Request, res: Response) => {
+        await runAction(req, res, AdminAction.DISABLE, account => setFields(account, { enabled: false }));
+    })
+
+    app.post("/admin/accounts/:id/resetErrors", async (req: Request, res: Response) => {
+        await runAction(req, res, AdminAction.RESET_ERRORS, account => setFields(account, {
+            errorCounter: 0,
+            recentErrors: []
+        }));
+    })
+
+    app.post("/admin/accounts/:id/clearTimeout", async (req: Request, res: Response) => {
+        await runAction(req, res, AdminAction.CLEAR_TIMEOUT, account => setFields(account, { forcedTimeoutAt: 0 }));
+    })
+
+    app.post("/admin/accounts/:id/move", async (req: Request, res: Response) => {
+        const server = req.body["server"];
+        if (!server || !SERVER_PATTERN.test(`${ server }`)) {
+            res.status(400).json({ error: "invalid server" });
+            return;
+        }
+        await runAction(req, res, AdminAction.MOVE, async account => {
+            if (account.requestServer === server) {
+                throw new MineSkinError("invalid_server", "account is already on " + server, 400);
+            }
+            const fields: { [field: string]: any } = {
+                requestServer: `${ server }`,
+                lastRequestServer: account.requestServer
+            };
+            // the lock is checked in the update, another server could have selected the account since it was loaded
+            const result = await Account.updateOne({
+                _id: account._id,
+                $or: [
+                    { lockExpiresAt: { $exists: false } },
+                    { lockExpiresAt: { $lte: Math.floor(Date.now() / 1000) } }
+                ]
+            }, { $set: fields }).exec();
+            if (result.n === 0) {
+                throw new MineSkinError("account_in_use", "account is in use", 409);
+            }
+            return {
+                before: {
+                    requestServer: account.requestServer,
+                    lastRequestServer: account.lastRequestServer
+                },
+                after: fields
+            };
+        });
+    })
+
+    app.post("/admin/accounts/:id/reauthenticate", async (req: Request, res: Response) => {
+        const config = await getConfig();
+        await runAction(req, res, AdminAction.REAUTHENTICATE, async account => {
+            // authenticating sets the request server, so it has to happen on the account's own server
+            if (account.requestServer && account.requestServer !== config.server) {
+                throw new MineSkinError("wrong_server", "account belongs to " + account.requestServer, 409);
+            }
+            const before = {
+                accessTokenExpiration: account.accessTokenExpiration,
+                accessTokenSource: account.accessTokenSource
+            };
+            account.accessToken = "";
+            account.accessTokenExpiration = 0;
+            const breadcrumb = nextBreadColor()(md5(`${ account.id }${ Date.now() }`).substr(0, 8));
+            account = await Authentication.authenticate(account, { breadcrumb });
+            return {
+                before: before,
+                after: {
+                    accessTokenExpiration: account.accessTokenExpiration,
+                    accessTokenSource: account.accessTokenSource
+                }
+            };
+        });
+    })
+
+    app.get("/admin/audit", async (req: Request, res: Response) => {
+        if (!await getAdminName(req, res)) return;
+        const account = parseInt(req.query["account"] as string);
+        const limit = Math.min(Math.max(parseInt(req.query["limit"] as string) || 50, 1), 200);
+        const entries = await AdminAuditLog.findRecent({
+            account: isNaN(account) ? undefined : account,
+            actor: req.query["actor"] as Maybe<string>
+        }, limit);
+        res.json(entries.map(e => ({
+            actor: e.actor,
+            action: e.action,
+            account: e.account,
+            before: e.before,
+            after: e.after,
+            success: e.success,
+            error: e.error,
+            ip: e.ip,
+            server: e.server,
+            time: e.time
+        })));
+    })
+
+}
+
+/**
+ * Checks the admin token in the Authorization header, responds with an error if it's invalid
+ * @return name of the token
+ */
+async function getAdminName(req: Request, res: Response): Promise<Maybe<string>> {
+    const header = req.headers["authorization"];
+    if (!header || !header.startsWith("Bearer ")) {
+        res.status(401).json({ error: "missing token" });
+        return undefined;
+    }
+    const config = await getConfig();
+    const token = crypto.createHash("sha256").update(header.substr("Bearer ".length)).digest();
+    for (const [name, adminToken] of Object.entries(config.admin?.tokens || {})) {
+        // compare hashes so the comparison is constant-time regardless of the token lengths
+        if (adminToken && crypto.timingSafeEqual(token, crypto.createHash("sha256").update(adminToken).digest())) {
+            return name;
+        }
+    }
+    res.status(403).json({ error: "invalid token" });
+    return undefined;
+}
+
+async function findAccount(req: Request, res: Response): Promise<Maybe<IAccountDocument>> {
+    const id = parseInt(req.params["id"]);
+    if (isNaN(id)) {
+        res.status(400).json({ error: "invalid id" });
+        return undefined;
+    }
+    const account = await Account.findOne({ id: id }).exec();
+    if (!account) {
+        res.status(404).json({ error: "account not found" });
+        return undefined;
+    }
+    return account;
+}
+
+/**
+ * Runs the action on the account from the request & writes the result to the audit log
+ */
+async function runAction(req: Request, res: Response, action: AdminAction, handler: (account: IAccountDocument) => Promise<ActionResult>): Promise<void> {
+    const actor = await getAdminName(req, res);
+    if (!actor) return;
+    const account = await findAccount(req, res);
+    if (!account) return;
+
+    const config = await getConfig();
+    const entry = new AdminAuditLog({
+        actor: actor,
+        action: action,
+        account: account.id,
+        ip: getIp(req),
+        server: config.server,
+        time: new Date()
+    });
+    try {
+        const result = await handler(account);
+        entry.before = result.before;
+        entry.after = result.after;
+        entry.success = true;
+    } catch (e) {
+        entry.success = false;
+        entry.error = e.message;
+        await entry.save();
+        throw e;
+    }
+    await entry.save();
+    console.log(info("[Admin] " + actor + " ran " + action + " on " + account.toSimplifiedString()));
+
+    const updated = await Account.findOne({ _id: account._id }).exec();
+    res.json({
+        success: true,
+        account: updated ? toAdminInfo(updated, Math.floor(Date.now() / 1000)) : undefined
+    });
+}
+
+/**
+ * Updates only the given fields, so nothing the generator changed in the meantime is overwritten
+ */
+async function setFields(account: IAccountDocument, fields: { [field: string]: any }): Promise<ActionResult> {
+    const before: { [field: string]: any } = {};
+    for (const field of Object.keys(fields)) {
+        before[field] = account.get(field);
+    }
+    await Account.updateOne({ _id: account._id }, { $set: fields }).exec();
+    return {
+        before: before,
+        after: fields
+    };
+}
+
+function toAdminInfo(account: IAccountDocument, time: number): any {
+    return {
+        id: account.id,
+        uuid: account.uuid,
+        playername: account.playername,
+        type: account.type,
+        accountType: account.getAccountType(),
+        enabled: account.enabled,
+        requestServer: account.requestServer,
+        lastRequestServer: account.lastRequestServer,
+        timeAdded: account.timeAdded,
+        lastUsed: account.lastUsed,
+        lastSelected: account.lastSelected,
+        locked: (account.lockExpiresAt || 0) > time,
+        lockOwner: account.lockOwner,
+        forcedTimeoutAt: account.forcedTimeoutAt,
+        accessTokenExpiration: account.accessTokenExpiration,
+        accessTokenSource: account.accessTokenSource,
+        passwordless: !account.passwordNew,
+        health: {
+            score: getHealthScore(account, time),
+            errorCounter: account.errorCounter,
+            successCounter: account.successCounter,
+            totalErrorCounter: account.totalErrorCounter,
+            totalSuccessCounter: account.totalSuccessCounter,
+            lastErrorCode: account.lastErrorCode,
+            recentErrors: (account.recentErrors || []).filter(e => time - e.time < RECENT_ERROR_WINDOW)
+        }
+    };
+}
@@ -1,5 +1,5 @@
 import { Application, Request, Response } from "express";
-import { base64encode, corsWithCredentialsMiddleware, Maybe, random32BitNumber, sha256, sha512 } from "../util";
+import { base64encode, corsWithCredentialsMiddleware, getAndValidateApiKeyWithSecret, Maybe, random32BitNumber, sha256, sha512, validateUrl } from "../util";
 import { debug, info } from "../util/colors";
 import { Caching } from "../generator/Caching";
 import { IApiKeyDocument } from "../typings/db/IApiKeyDocument";
@@ -9,6 +9,8 @@ import { getConfig } from "../typings/Configs";
 import { PendingDiscordApiKeyLink } from "../typings/DiscordAccountLink";
 import * as qs from "querystring";
 import { Discord } from "../util/Discord";
+import { Webhooks } from "../util/Webhooks";
+import { Skin, WebhookDelivery } from "../database/schemas";
 
 
 export const register = (app: Application) => {
@@ -40,7 +42,8 @@ export const register = (app: Application) => {
             origins: apiKey.allowedOrigins,
             ips: apiKey.allowedIps,
             agents: apiKey.allowedAgents,
-            minDelay: apiKey.minDelay
+            minDelay: apiKey.minDelay,
+            webhookUrl: apiKey.webhookUrl
         })
     })
 
@@ -125,25 +128,8 @@ export const register = (app: Application) => {
 
 
     app.put("/apikey", async (req: Request, res: Response) => {
-        const key: string = req.body["key"];
-        if (!key) {
-            res.status(400).json({ error: "missing key" });
-            return;
-        }
-        const secret: string = req.body["secret"];
-        if (!secret) {
-            res.status(400).json({ error: "missing secret" });
-            return;
-        }
-
-        const apiKey = await ApiKey.findKey(Caching.cachedSha512(key));
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
         if (!apiKey) {
-            res.status(400).json({ error: "invalid key" });
-            return;
-        }
-
-        if (apiKey.secret !== Caching.cachedSha512(secret)) {
-            res.status(400).json({ error: "invalid secret" });
             return;
         }
 
@@ -163,6 +149,19 @@ export const register = (app: Application) => {
         if (allowedAgents) {
             apiKey.allowedAgents = allowedAgents.map(s => s.trim().toLowerCase()).filter(s => s.length > 5 && s.length < 30);
         }
+        const webhookUrl: string = req.body["webhookUrl"];
+        if (typeof webhookUrl !== "undefined") {
+            if (!webhookUrl) {
+                apiKey.webhookUrl = undefined;
+            } else {
+                const url = validateUrl(webhookUrl);
+                if (!url || !url.startsWith("http")) {
+                    res.status(400).json({ error: "invalid webhook url" });
+                    return;
+                }
+                apiKey.webhookUrl = url;
+            }
+        }
 
         apiKey.updatedAt = new Date();
 
@@ -181,28 +180,67 @@ export const register = (app: Application) => {
         })
     });
 
-
-    app.delete("/apikey", async (req: Request, res: Response) => {
-        console.log(req.body)
-        const key: string = req.body["key"];
-        if (!key) {
-            res.status(400).json({ error: "missing key" });
-            return;
-        }
-        const secret: string = req.body["secret"];
-        if (!secret) {
-            res.status(400).json({ error: "missing secret" });
+    // GET has no body, the secret goes in the X-MineSkin-Secret header
+    app.get("/apikey/webhooks", async (req: Request, res: Response) => {
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
+        if (!apiKey) {
             return;
         }
 
-        const apiKey = await ApiKey.findKey(Caching.cachedSha512(key));
+        const deliveries = await WebhookDelivery.findForApiKey(apiKey.id, 100);
+        res.json({
+            success: true,
+            webhookUrl: apiKey.webhookUrl,
+            deliveries: deliveries.map(d => Webhooks.toResponseJson(d))
+        });
+    });
+
+    // GET has no body, the secret goes in the X-MineSkin-Secret header
+    app.get("/apikey/skins/:page?", async (req: Request, res: Response) => {
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
         if (!apiKey) {
-            res.status(400).json({ error: "invalid key" });
             return;
         }
 
-        if (apiKey.secret !== Caching.cachedSha512(secret)) {
-            res.status(400).json({ error: "invalid secret" });
+        const page = Math.max(Number(req.params.hasOwnProperty("page") ? parseInt(req.params["page"]) : 1), 1);
+        const size = Math.min(Math.max(Number(req.query.hasOwnProperty("size") ? parseInt(req.query["size"] as string) : 16)), 64)
+
+        const query = { apiKeyId: apiKey.id };
+        const count = await Skin.countDocuments(query).exec();
+        const skins = await Skin.find(query)
+            .skip(size * (page - 1))
+            .limit(size)
+            .select({ '_id': 0, id: 1, uuid: 1, skinUuid: 1, name: 1, url: 1, time: 1, visibility: 1, views: 1, duplicate: 1 })
+            .sort({ time: -1 })
+            .lean()
+            .exec();
+
+        res.json({
+            skins: skins.map(s => {
+                return {
+                    id: s.id,
+                    uuid: s.skinUuid || s.uuid,
+                    name: s.name,
+                    url: s.url,
+                    time: s.time,
+                    private: (s.visibility !== 0),
+                    views: s.views,
+                    duplicate: s.duplicate
+                }
+            }),
+            page: {
+                index: page,
+                amount: Math.round(count / size),
+                total: count
+            }
+        });
+    });
+
+
+    app.delete("/apikey", async (req: Request, res: Response) => {
+        console.log(req.body)
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
+        if (!apiKey) {
             return;
         }
 
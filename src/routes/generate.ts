@@ -9,13 +9,45 @@ import { GenerateType, SkinModel, SkinVariant, SkinVisibility } from "../typings
 import { debug } from "../util/colors";
 import * as Sentry from "@sentry/node";
 import { nextBreadColor } from "../typings/Bread";
-import { GenerateRequest } from "../typings";
+import { GenerateRequest, MineSkinError } from "../typings";
 import { Caching } from "../generator/Caching";
 import { isApiKeyRequest } from "../typings/ApiKeyRequest";
+import { BatchItem, Jobs, JobSource, MAX_BATCH_SIZE } from "../generator/Jobs";
+import { JobStatus } from "../typings/db/IGenerateJobDocument";
+import { GenerateJob } from "../database/schemas";
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{1,16}$/;
+
+interface ResolvedUser {
+    uuid: string;
+    name?: string;
+}
 
 export const register = (app: Application) => {
 
     app.use("/generate", corsWithAuthMiddleware);
+
+    //// JOBS
+
+    // registered before the limiter, polling shouldn't count as a generate request
+    app.get("/generate/job/:id", async (req: Request, res: Response) => {
+        const job = await GenerateJob.findForJobId(req.params["id"]);
+        if (!job) {
+            res.status(404).json({ error: "job not found" });
+            return;
+        }
+        res.json(await Jobs.toResponseJson(job));
+    })
+
+    app.get("/generate/batch/:id", async (req: Request, res: Response) => {
+        const jobs = await GenerateJob.findForBatchId(req.params["id"]);
+        if (jobs.length <= 0) {
+            res.status(404).json({ error: "batch not found" });
+            return;
+        }
+        res.json(await Jobs.toBatchResponseJson(req.params["id"], jobs));
+    })
+
     app.use("/generate", generateLimiter);
     app.use("/generate", async (req, res, next) => {
         try {
@@ -54,6 +86,11 @@ export const register = (app: Application) => {
             await updateTraffic(req);
         }
 
+        if (isAsync(req)) {
+            await submitJob(req, res, GenerateType.URL, { url }, options, client);
+            return;
+        }
+
         const skin = await Generator.generateFromUrlAndSave(url, options, client);
         await sendSkin(req, res, skin);
     })
@@ -90,6 +127,11 @@ export const register = (app: Application) => {
             await updateTraffic(req);
         }
 
+        if (isAsync(req)) {
+            await submitJob(req, res, GenerateType.UPLOAD, { file: file.data }, options, client);
+            return;
+        }
+
         const skin = await Generator.generateFromUploadAndSave(file, options, client);
         await sendSkin(req, res, skin);
     })
@@ -99,8 +141,10 @@ export const register = (app: Application) => {
 
     app.post("/generate/user", async (req: GenerateRequest, res: Response) => {
         const uuidStr = req.body["uuid"] || req.query["uuid"];
-        if (!uuidStr) {
-            res.status(400).json({ error: "missing uuid" });
+        // "name" is the player's name here, the skin's name is "skinName"
+        const usernameStr = req.body["name"] || req.query["name"];
+        if (!uuidStr && !usernameStr) {
+            res.status(400).json({ error: "missing uuid or name" });
             return;
         }
 
@@ -114,23 +158,25 @@ export const register = (app: Application) => {
         await updateTraffic(req);
         Sentry.setTag("generate_type", GenerateType.USER);
 
-        const uuids = longAndShortUuid(uuidStr);
-        if (!uuids) {
-            res.status(400).json({ error: "invalid uuid" });
-            return;
-        }
-        const userValidation = await Caching.getUserByUuid(uuids.short);
-        if (!userValidation || !userValidation.valid) {
-            res.status(400).json({ error: "invalid user" });
+        let user: ResolvedUser;
+        try {
+            user = await resolveUser(uuidStr, usernameStr);
+        } catch (e) {
+            res.status(400).json({ error: e.message });
             return;
         }
 
         console.log(debug(`${ options.breadcrumb } Agent:       ${ req.headers["user-agent"] }`));
         console.log(debug(`${ options.breadcrumb } Key:         ${ req.apiKey?.name ?? "none" }`));
-        console.log(debug(`${ options.breadcrumb } USER:        ${ uuids.long }`))
+        console.log(debug(`${ options.breadcrumb } USER:        ${ user.uuid } (${ user.name })`))
 
-        const skin = await Generator.generateFromUserAndSave(uuids.long, options, client);
-        await sendSkin(req, res, skin);
+        if (isAsync(req)) {
+            await submitJob(req, res, GenerateType.USER, { user: user.uuid }, options, client, { user });
+            return;
+        }
+
+        const skin = await Generator.generateFromUserAndSave(user.uuid, options, client);
+        await sendSkin(req, res, skin, { user });
     })
 
     // TODO: remove at some point
@@ -166,29 +212,192 @@ export const register = (app: Application) => {
         console.log(debug(`${ options.breadcrumb } Key:         ${ req.apiKey?.name ?? "none" }`));
         console.log(debug(`${ options.breadcrumb } USER:        ${ uuids.long }`))
 
+        if (isAsync(req)) {
+            await submitJob(req, res, GenerateType.USER, { user: uuids.long }, options, client);
+            return;
+        }
+
         const skin = await Generator.generateFromUserAndSave(uuids.long, options, client);
         await sendSkin(req, res, skin);
     })
 
+    //// BATCH
+
+    app.post("/generate/batch", async (req: GenerateRequest, res: Response) => {
+        let items = req.body["items"];
+        if (typeof items === "string") {
+            // multipart requests send the items as a JSON string
+            try {
+                items = JSON.parse(items);
+            } catch (e) {
+                items = undefined;
+            }
+        }
+        if (!Array.isArray(items) || items.length <= 0) {
+            res.status(400).json({ error: "missing items" });
+            return;
+        }
+        if (items.length > MAX_BATCH_SIZE) {
+            res.status(400).json({ error: `too many items (max ${ MAX_BATCH_SIZE })` });
+            return;
+        }
+
+        const client = getClientInfo(req);
+
+        const requestAllowed = await checkTraffic(req, res);
+        if (!requestAllowed) {
+            return;
+        }
+
+        console.log(debug(`Agent:       ${ req.headers["user-agent"] }`));
+        console.log(debug(`Key:         ${ req.apiKey?.name ?? "none" }`));
+        console.log(debug(`Batch:       ${ items.length } items`));
+
+        const batchItems: BatchItem[] = [];
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i];
+            if (!item || typeof item !== "object") {
+                res.status(400).json({ error: `invalid item #${ i }` });
+                return;
+            }
+            const type = item["type"] as GenerateType;
+            let source: Maybe<JobSource>;
+            try {
+                source = await getBatchItemSource(req, type, item);
+            } catch (e) {
+                res.status(400).json({ error: `${ e.message } for item #${ i }` });
+                return;
+            }
+            batchItems.push({
+                type: type,
+                source: source,
+                options: getAndValidateOptions(type, req, res, item)
+            });
+        }
+
+        const delay = await Generator.getDelay(await getAndValidateRequestApiKey(req));
+        const jobs = await Jobs.submitBatch(batchItems, client, delay);
+
+        // the client has to wait for the whole batch before sending the next request
+        const scheduled = jobs.filter(j => j.status === JobStatus.QUEUED).map(j => j.scheduledAt.getTime());
+        if (scheduled.length > 0) {
+            await updateTraffic(req, new Date(Math.max(...scheduled)));
+        }
+
+        res.status(202).json({
+            success: true,
+            ...(await Jobs.toBatchResponseJson(jobs[0].batchId!, jobs))
+        });
+    })
+
     ///
 
-    async function sendSkin(req: Request, res: Response, skin: SavedSkin): Promise<void> {
+    async function getBatchItemSource(req: GenerateRequest, type: GenerateType, item: any): Promise<JobSource> {
+        switch (type) {
+            case GenerateType.URL: {
+                const url = validateUrl(item["url"]);
+                if (!url) {
+                    throw new Error("invalid url");
+                }
+                return { url };
+            }
+            case GenerateType.UPLOAD: {
+                // uploads reference the name of a file field in the multipart request
+                const file = req.files?.[`${ item["file"] }`] as UploadedFile;
+                if (!file || Array.isArray(file)) {
+                    throw new Error("missing file");
+                }
+                return { file: file.data };
+            }
+            case GenerateType.USER: {
+                const user = await resolveUser(item["uuid"], item["name"]);
+                return { user: user.uuid };
+            }
+        }
+        throw new Error("invalid type");
+    }
+
+    /**
+     * Validates the uuid or looks up the username, the uuid takes precedence if both are set
+     */
+    async function resolveUser(uuidStr?: string, usernameStr?: string): Promise<ResolvedUser> {
+        if (uuidStr) {
+            const uuids = longAndShortUuid(`${ uuidStr }`);
+            if (!uuids) {
+                throw new Error("invalid uuid");
+            }
+            const userValidation = await Caching.getUserByUuid(uuids.short);
+            if (!userValidation || !userValidation.valid) {
+                throw new Error("invalid user");
+            }
+            return {
+                uuid: uuids.long,
+                name: userValidation.name
+            };
+        }
+        if (!usernameStr || !USERNAME_PATTERN.test(`${ usernameStr }`)) {
+            throw new Error("invalid username");
+        }
+        const userValidation = await Caching.getUserByName(`${ usernameStr }`);
+        if (!userValidation || !userValidation.valid || !userValidation.uuid) {
+            throw new Error("invalid user");
+        }
+        return {
+            uuid: longAndShortUuid(userValidation.uuid)!.long,
+            name: userValidation.name
+        };
+    }
+
+    async function sendSkin(req: Request, res: Response, skin: SavedSkin, extra?: object): Promise<void> {
         const genDelay = await Generator.getDelay(await getAndValidateRequestApiKey(req));
-        res.json(await skin.toResponseJson(skin.duplicate ? 1 : genDelay));
+        res.json({
+            ...(await skin.toResponseJson(skin.duplicate ? 1 : genDelay)),
+            ...extra
+        });
 
         if (skin.duplicate) {
             await updateTraffic(req, new Date(Date.now() - genDelay))
         }
     }
 
+    function isAsync(req: GenerateRequest): boolean {
+        const value = req.body["async"] ?? req.query["async"];
+        // form fields and query parameters are strings, so "false" would be truthy
+        return value === true || value === 1 || value === "true" || value === "1";
+    }
+
+    async function submitJob(req: GenerateRequest, res: Response, type: GenerateType, source: JobSource, options: GenerateOptions, client: ClientInfo, extra?: object): Promise<void> {
+        const job = await Jobs.submit(type, source, options, client);
+        res.status(202).json({
+            success: true,
+            jobId: job.jobId,
+            status: job.status,
+            ...extra
+        });
+    }
+
     function getClientInfo(req: GenerateRequest): ClientInfo {
         const userAgent = req.header("user-agent") || "n/a";
         const origin = req.header("origin");
         const ip = getIp(req);
         const via = getVia(req);
         let apiKey;
+        let apiKeyId;
         if (isApiKeyRequest(req) && req.apiKey) {
             apiKey = `${ req.apiKey.key.substr(0, 8) } ${ req.apiKey?.name }`;
+            apiKeyId = req.apiKey.id;
+        }
+
+        let callbackUrl;
+        const callback = req.body["callback"] || req.query["callback"];
+        if (callback) {
+            if (!apiKeyId) {
+                throw new MineSkinError("invalid_callback", "Callbacks require an API key", 400);
+            }
+            callbackUrl = validateUrl(callback);
+            if (!callbackUrl || !callbackUrl.startsWith("http")) {
+                throw new MineSkinError("invalid_callback", "Invalid callback url", 400);
+            }
         }
 
         Sentry.setTags({
@@ -201,13 +410,15 @@ export const register = (app: Application) => {
             origin,
             ip,
             via,
-            apiKey
+            apiKey,
+            apiKeyId,
+            callbackUrl
         };
     }
 
-    function getAndValidateOptions(type: GenerateType, req: GenerateRequest, res: Response): GenerateOptions {
-        let model = validateModel(req.body["model"] || req.query["model"]);
-        let variant = validateVariant(req.body["variant"] || req.query["variant"]);
+    function getAndValidateOptions(type: GenerateType, req: GenerateRequest, res: Response, item?: any): GenerateOptions {
+        let model = validateModel(getParam(req, "model", item));
+        let variant = validateVariant(getParam(req, "variant", item));
         // Convert & make sure both are set
         if (variant === SkinVariant.UNKNOWN && model !== SkinModel.UNKNOWN) {
             variant = modelToVariant(model);
@@ -215,15 +426,21 @@ export const register = (app: Application) => {
             model = variantToModel(variant);
         }
 
-        const visibility = validateVisibility(req.body["visibility"] || req.query["visibility"]);
-        const name = validateName(req.body["name"] || req.query["name"]);
+        const visibility = validateVisibility(getParam(req, "visibility", item));
+        // user requests take the player's name as "name"
+        const name = validateName(getParam(req, type === GenerateType.USER ? "skinName" : "name", item));
 
-        const checkOnly = !!(req.body["checkOnly"] || req.query["checkOnly"])
+        const checkOnly = !!getParam(req, "checkOnly", item)
+        const normalize = !!getParam(req, "normalize", item);
+        const upgradeLegacy = !!getParam(req, "upgradeLegacy", item);
+        const allowSimilar = !!getParam(req, "allowSimilar", item);
 
         const breadcrumbId = md5(`${ getIp(req) }${ Date.now() }${ variant }${ visibility }${ Math.random() }${ name }`).substr(0, 8);
         const breadcrumb = nextBreadColor()(breadcrumbId);
         req.breadcrumb = breadcrumb;
-        res.header("X-MineSkin-Breadcrumb", breadcrumbId);
+        if (!item) {
+            res.header("X-MineSkin-Breadcrumb", breadcrumbId);
+        }
 
         console.log(debug(`${ breadcrumb } Type:        ${ type }`))
         console.log(debug(`${ breadcrumb } Variant:     ${ variant }`));
@@ -233,6 +450,15 @@ export const register = (app: Application) => {
         if (checkOnly) {
             console.log(debug(`${ breadcrumb } Check Only:  true`));
         }
+        if (normalize) {
+            console.log(debug(`${ breadcrumb } Normalize:   true`));
+        }
+        if (upgradeLegacy) {
+            console.log(debug(`${ breadcrumb } Upgrade:     true`));
+        }
+        if (allowSimilar) {
+            console.log(debug(`${ breadcrumb } Similar:     true`));
+        }
 
         Sentry.setTags({
             "generate_type": type,
@@ -247,10 +473,22 @@ export const register = (app: Application) => {
             visibility,
             name,
             breadcrumb,
-            checkOnly
+            breadcrumbId,
+            checkOnly,
+            normalize,
+            upgradeLegacy,
+            allowSimilar
         };
     }
 
+    function getParam(req: GenerateRequest, name: string, item?: any): any {
+        if (item) {
+            // options of a batch item
+            return item[name];
+        }
+        return req.body[name] || req.query[name];
+    }
+
     function validateModel(model?: string): SkinModel {
         if (!model || model.length < 3) {
             return SkinModel.UNKNOWN;
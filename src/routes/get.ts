@@ -2,8 +2,24 @@ import { Application, Request, Response } from "express";
 import { Generator } from "../generator/Generator";
 import { Caching } from "../generator/Caching";
 import { Skin } from "../database/schemas";
-import { corsWithAuthMiddleware, getAndValidateRequestApiKey, getIp, stripUuid } from "../util";
+import { base64decode, base64encode, corsWithAuthMiddleware, getAndValidateRequestApiKey, getIp, Maybe, stripUuid, variantToModel } from "../util";
 import * as Sentry from "@sentry/node";
+import { GenerateType, SkinVariant } from "../typings/db/ISkinDocument";
+import { GenerateOptions } from "../typings/GenerateOptions";
+import { SkinInfo } from "../typings/SkinInfo";
+
+const MAX_BULK_SIZE = 64;
+
+type ListSortField = "time" | "views" | "duplicate";
+const LIST_SORT_FIELDS: string[] = ["time", "views", "duplicate"];
+/** Older skins don't have these fields, they count as 0 **/
+const MISSING_AS_ZERO_FIELDS: string[] = ["views", "duplicate"];
+
+interface ListCursor {
+    sort: ListSortField;
+    value: number;
+    id: number;
+}
 
 export const register = (app: Application) => {
 
@@ -70,7 +86,107 @@ export const register = (app: Application) => {
         await skin.save();
     })
 
-    // TODO: add route to get by hash
+    app.get("/get/hash/:hash", async (req: Request, res: Response) => {
+        const hash = req.params["hash"];
+        if (!/^[0-9a-f]{32,128}$/i.test(hash)) {
+            res.status(400).json({ error: "invalid hash" });
+            return;
+        }
+        const skin = await Caching.getSkinByHash(hash, getVariantFilter(req));
+        if (!skin) {
+            res.status(404).json({ error: "Skin not found" });
+            return;
+        }
+        skin.views++;
+        if (skin.model === "alex") {
+            skin.model = "slim";
+        }
+        res.json(await skin.toResponseJson());
+        await skin.save();
+    })
+
+    app.get("/get/texture/:textureHash", async (req: Request, res: Response) => {
+        const textureHash = req.params["textureHash"];
+        if (!/^[0-9a-z]{32,128}$/i.test(textureHash)) {
+            res.status(400).json({ error: "invalid texture hash" });
+            return;
+        }
+        const skin = await Caching.getSkinByTextureHash(textureHash, getVariantFilter(req));
+        if (!skin) {
+            res.status(404).json({ error: "Skin not found" });
+            return;
+        }
+        skin.views++;
+        if (skin.model === "alex") {
+            skin.model = "slim";
+        }
+        res.json(await skin.toResponseJson());
+        await skin.save();
+    })
+
+    app.post("/get/bulk", async (req: Request, res: Response) => {
+        const ids: number[] = (Array.isArray(req.body["ids"]) ? req.body["ids"] : [])
+            .map((id: any) => parseInt(id))
+            .filter((id: number) => !isNaN(id));
+        const uuids: string[] = (Array.isArray(req.body["uuids"]) ? req.body["uuids"] : [])
+            .map((uuid: any) => `${ uuid }`)
+            .filter((uuid: string) => uuid.length >= 32 && uuid.length <= 36)
+            .map((uuid: string) => stripUuid(uuid));
+        if (ids.length + uuids.length <= 0) {
+            res.status(400).json({ error: "missing ids or uuids" });
+            return;
+        }
+        if (ids.length + uuids.length > MAX_BULK_SIZE) {
+            res.status(400).json({ error: `too many skins (max ${ MAX_BULK_SIZE })` });
+            return;
+        }
+
+        const skins = await Skin.find({
+            $or: [
+                { id: { $in: ids } },
+                { skinUuid: { $in: uuids } }
+            ]
+        }).exec();
+
+        const result: { [key: string]: SkinInfo } = {};
+        const updates: any[] = [];
+        for (const skin of skins) {
+            if (skin.model === "alex") {
+                skin.model = "slim";
+            }
+            const info = await skin.toResponseJson(); // may assign a uuid or update the hash
+            if (ids.includes(skin.id)) {
+                result[`${ skin.id }`] = info;
+            }
+            if (skin.skinUuid && uuids.includes(skin.skinUuid)) {
+                result[skin.skinUuid] = info;
+            }
+
+            const update: any = { $inc: { views: 1 } };
+            const modified = skin.modifiedPaths();
+            if (modified.length > 0) {
+                update["$set"] = {};
+                for (const path of modified) {
+                    update["$set"][path] = skin.get(path);
+                }
+            }
+            updates.push({
+                updateOne: {
+                    filter: { _id: skin._id },
+                    update: update
+                }
+            });
+        }
+        if (updates.length > 0) {
+            await Skin.bulkWrite(updates, { ordered: false });
+        }
+
+        const missing = [...ids.map(id => `${ id }`), ...uuids].filter(key => !result[key]);
+        res.json({
+            skins: result,
+            missing: missing
+        });
+    })
 
     app.get("/get/forTexture/:value/:signature?", async (req: Request, res: Response) => {
         const query: any = { value: req.params["value"] };
@@ -89,19 +205,79 @@ export const register = (app: Application) => {
         const page = Math.max(Number(req.params.hasOwnProperty("page") ? parseInt(req.params["page"]) : 1), 1);
         const size = Math.min(Math.max(Number(req.query.hasOwnProperty("size") ? parseInt(req.query["size"] as string) : 16)), 64)
 
+        const sortStr = `${ req.query["sort"] ?? "time" }`;
+        if (!LIST_SORT_FIELDS.includes(sortStr)) {
+            res.status(400).json({ error: "invalid sort" });
+            return;
+        }
+        const sortField = sortStr as ListSortField;
+
         const query: any = { visibility: 0 };
         if (req.query.hasOwnProperty("filter") && (req.query["filter"]?.length || 0) > 0) {
             query["$text"] = { $search: `${ req.query.filter }`.substr(0, 32) };
         }
+        const variant = getVariantFilter(req);
+        if (variant !== SkinVariant.UNKNOWN) {
+            Generator.appendOptionsToDuplicateQuery(<GenerateOptions>{
+                model: variantToModel(variant),
+                variant: variant
+            }, query);
+        }
+        if (req.query.hasOwnProperty("type")) {
+            const type = `${ req.query["type"] }` as GenerateType;
+            if (!Object.values(GenerateType).includes(type)) {
+                res.status(400).json({ error: "invalid type" });
+                return;
+            }
+            query.type = type;
+        }
+        const since = parseInt(req.query["since"] as string);
+        const until = parseInt(req.query["until"] as string);
+        if (!isNaN(since) || !isNaN(until)) {
+            query.time = {};
+            if (!isNaN(since)) {
+                query.time["$gte"] = since;
+            }
+            if (!isNaN(until)) {
+                query.time["$lte"] = until;
+            }
+        }
+        const minViews = parseInt(req.query["minViews"] as string);
+        if (!isNaN(minViews)) {
+            query.views = { $gte: minViews };
+        }
+        if (req.query.hasOwnProperty("cape")) {
+            const cape = `${ req.query["cape"] }`;
+            if (cape !== "true" && cape !== "false") {
+                res.status(400).json({ error: "invalid cape filter" });
+                return;
+            }
+            // null also matches skins without the field
+            query.capeUrl = cape === "true" ? { $ne: null } : null;
+        }
+
+        // cursor mode if there's an "after" parameter, even if it's empty (first page)
+        const cursorMode = req.query.hasOwnProperty("after");
+        let cursor: Maybe<ListCursor> = undefined;
+        if (cursorMode && req.query["after"]) {
+            cursor = decodeListCursor(`${ req.query["after"] }`);
+            if (!cursor || cursor.sort !== sortField) {
+                res.status(400).json({ error: "invalid cursor" });
+                return;
+            }
+        }
 
         const transaction = Sentry.getCurrentHub().getScope()?.getTransaction();
 
-        let countSpan = transaction?.startChild({
-            op: "skin_pagination_count",
-            description: "Skin Pagination Count"
-        });
-        const count = await Caching.getSkinDocumentCount(query);
-        countSpan?.finish();
+        let count = 0;
+        if (!cursorMode) {
+            let countSpan = transaction?.startChild({
+                op: "skin_pagination_count",
+                description: "Skin Pagination Count"
+            });
+            count = await Caching.getSkinDocumentCount(query);
+            countSpan?.finish();
+        }
 
         let querySpan = transaction?.startChild({
             op: "skin_pagination_query",
@@ -109,32 +285,110 @@ export const register = (app: Application) => {
             data: {
                 filter: req.query.filter,
                 page: page - 1,
-                size: size
+                size: size,
+                sort: sortField,
+                cursor: cursorMode
             }
         });
-        const skins = await Skin
-            .find(query)
-            .skip(size * (page - 1))
-            .limit(size)
-            .select({ '_id': 0, id: 1, uuid: 1, skinUuid: 1, name: 1, url: 1, time: 1 })
-            .sort({ time: -1 })
-            .lean()
-            .exec();
+        const skins = cursorMode
+            ? await findListSkinsAfter(query, sortField, size, cursor)
+            : await findListSkins(query, sortField, { [sortField]: -1, id: -1 }, size, size * (page - 1));
         querySpan?.finish();
 
+        let next: Maybe<string> = undefined;
+        if (skins.length >= size) {
+            const last = skins[skins.length - 1];
+            next = encodeListCursor({
+                sort: sortField,
+                value: last[sortField] ?? 0,
+                id: last.id
+            });
+        }
+
         res.json({
             skins: skins.map(s => {
                 s.uuid = s.skinUuid || s.uuid;
                 return s;
             }),
-            page: {
+            page: cursorMode ? undefined : {
                 index: page,
                 amount: Math.round(count / size),
                 total: count
             },
+            next: next,
             filter: req.query["filter"]
         });
     })
 
+    function getVariantFilter(req: Request): SkinVariant {
+        const variant = `${ req.query["variant"] ?? "" }`.toLowerCase();
+        if (variant === "slim" || variant === "alex") {
+            return SkinVariant.SLIM;
+        }
+        if (variant === "classic" || variant === "default" || variant === "steve") {
+            return SkinVariant.CLASSIC;
+        }
+        return SkinVariant.UNKNOWN;
+    }
+
+    function findListSkins(query: any, sortField: ListSortField, sort: any, limit: number, skip: number = 0): Promise<any[]> {
+        return Skin.find(query)
+            .skip(skip)
+            .limit(limit)
+            .select({ '_id': 0, id: 1, uuid: 1, skinUuid: 1, name: 1, url: 1, capeUrl: 1, time: 1, [sortField]: 1 })
+            .sort(sort)
+            .lean()
+            .exec();
+    }
+
+    /**
+     * Mongo sorts missing fields below 0, so skins that count as 0 are queried separately and only ordered by id
+     */
+    async function findListSkinsAfter(query: any, sortField: ListSortField, size: number, cursor?: ListCursor): Promise<any[]> {
+        const withConditions = (conditions: any[]) => conditions.length > 0 ? { ...query, $and: conditions } : query;
+        const afterCursor = (cursor: ListCursor) => ({
+            $or: [
+                { [sortField]: { $lt: cursor.value } },
+                { [sortField]: cursor.value, id: { $lt: cursor.id } }
+            ]
+        });
+
+        if (!MISSING_AS_ZERO_FIELDS.includes(sortField)) {
+            return findListSkins(withConditions(cursor ? [afterCursor(cursor)] : []), sortField, { [sortField]: -1, id: -1 }, size);
+        }
+
+        let skins: any[] = [];
+        if (!cursor || cursor.value > 0) {
+            const conditions: any[] = [{ [sortField]: { $gt: 0 } }];
+            if (cursor) {
+                conditions.push(afterCursor(cursor));
+            }
+            skins = await findListSkins(withConditions(conditions), sortField, { [sortField]: -1, id: -1 }, size);
+        }
+        if (skins.length < size) {
+            const conditions: any[] = [{ [sortField]: { $in: [0, null] } }];
+            if (cursor && cursor.value === 0) {
+                conditions.push({ id: { $lt: cursor.id } });
+            }
+            skins = skins.concat(await findListSkins(withConditions(conditions), sortField, { id: -1 }, size - skins.length));
+        }
+        return skins;
+    }
+
+    function encodeListCursor(cursor: ListCursor): string {
+        return base64encode(JSON.stringify([cursor.sort, cursor.value, cursor.id]));
+    }
+
+    function decodeListCursor(str: string): Maybe<ListCursor> {
+        try {
+            const [sort, value, id] = JSON.parse(base64decode(str));
+            if (!LIST_SORT_FIELDS.includes(sort) || typeof value !== "number" || value < 0 || typeof id !== "number") {
+                return undefined;
+            }
+            return { sort, value, id };
+        } catch (e) {
+            return undefined;
+        }
+    }
 
 }
@@ -5,3 +5,5 @@ export * as renderRoute from "./render";
 export * as testerRoute from "./tester";
 export * as utilRoute from "./util";
 export * as apiKeyRoute from "./apikey";
+export * as skinRoute from "./skin";
+export * as adminRoute from "./admin";
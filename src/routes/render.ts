@@ -1,25 +1,27 @@
 import { Application, Request, Response } from "express";
-import { Requests } from "../generator/Requests";
 import * as Sentry from "@sentry/node";
 import { ISkinDocument } from "../typings";
 import { corsMiddleware, Maybe } from "../util";
 import { Caching } from "../generator/Caching";
+import { Renderer, RenderType } from "../util/Renderer";
+import { CachedImage, RenderCache } from "../util/RenderCache";
+import { SafeFetchError } from "../generator/SafeFetch";
 
 export const register = (app: Application) => {
 
     app.use("/render", corsMiddleware);
 
-    app.get("/render/:type(head|skin)", (req: Request, res: Response) => {
+    app.get("/render/:type(head|skin|face|front|back)", (req: Request, res: Response) => {
         const url = req.query["url"] as string;
         if (!url) {
             res.status(400).json({ error: "Missing URL" });
             return;
         }
-        const options = req.query["options"] as string || "&aa=true";
+        const options = req.query["options"] as string;
         doRender(req, res, url, req.params["type"], options);
     })
 
-    app.get("/render/:id/:type(head|skin)", (req: Request, res: Response) => {
+    app.get("/render/:id/:type(head|skin|face|front|back)", (req: Request, res: Response) => {
         let id = req.params["id"];
         let promise: Promise<Maybe<ISkinDocument>>;
         if (id.length > 10) {
@@ -31,8 +33,8 @@ export const register = (app: Application) => {
             if (!skin) {
                 res.status(404).end();
             } else {
-                const options = req.query["options"] as string || "&aa=true";
-                doRender(req, res, skin.url, req.params["type"], options);
+                const options = req.query["options"] as string;
+                doRender(req, res, skin.url, req.params["type"], options, skin);
             }
         }).catch((err: any) => {
             Sentry.captureException(err);
@@ -41,6 +43,11 @@ export const register = (app: Application) => {
 
     // Helper route to avoid CORS issues
     app.get("/render/texture/:id", (req: Request, res: Response) => {
+        const part = `${ req.query["part"] ?? "skin" }`;
+        if (part !== "skin" && part !== "cape") {
+            res.status(400).json({ error: "invalid part" });
+            return;
+        }
         let id = req.params["id"];
         let promise: Promise<Maybe<ISkinDocument>>;
         if (id.length > 10) {
@@ -49,15 +56,12 @@ export const register = (app: Application) => {
             promise = Caching.getSkinById(parseInt(id));
         }
         promise.then((skin: ISkinDocument) => {
-            if (!skin) {
+            if (!skin || (part === "cape" && !skin.capeUrl)) {
                 res.status(404).end();
             } else {
-                Requests.axiosInstance.request({
-                    url: skin.url,
-                    responseType: "stream"
-                }).then(response => {
-                    res.header("Content-Type", "image/png");
-                    response.data.pipe(res);
+                const texturePromise = part === "cape" ? RenderCache.getTexture(skin.capeUrl!) : RenderCache.getTexture(skin.url, skin.minecraftTextureHash);
+                texturePromise.then(texture => {
+                    sendImage(req, res, texture, true);
                 }).catch((err: any) => {
                     Sentry.captureException(err);
                     res.status(500).end();
@@ -68,17 +72,47 @@ export const register = (app: Application) => {
         })
     });
 
-    function doRender(req: Request, res: Response, url: string, type: string | undefined, options: string) {
-        Requests.axiosInstance.request({
-            url: "https://tools.inventivetalent.org/skinrender/3d.php?headOnly=" + (type === "head") + "&user=" + url + options,
-            responseType: "stream"
-        }).then(response => {
-            res.header("Content-Type", "image/png");
-            response.data.pipe(res);
+    function doRender(req: Request, res: Response, url: string, type: string | undefined, optionsStr?: string, skin?: ISkinDocument) {
+        const renderType = type === "skin" ? RenderType.FRONT : type as RenderType;
+        const options = Renderer.parseOptions(optionsStr);
+        if (!options.variant) {
+            options.variant = skin?.variant;
+        }
+        RenderCache.getTexture(url, skin?.minecraftTextureHash).then(texture => {
+            return RenderCache.getRender(texture, renderType, options);
+        }).then(image => {
+            sendImage(req, res, image, !!skin);
         }).catch((err: any) => {
+            if (err instanceof SafeFetchError) {
+                // blocked or oversized texture url
+                res.status(400).end();
+                return;
+            }
             Sentry.captureException(err);
             res.status(500).end();
         })
     }
 
+    /**
+     * Sends the image with caching headers, or 304 if the client's copy is still fresh
+     * @param byId whether the image was requested by skin id/uuid rather than by url
+     */
+    function sendImage(req: Request, res: Response, image: CachedImage, byId: boolean) {
+        res.header("ETag", `"${ image.hash }"`);
+        res.header("Last-Modified", image.modified.toUTCString());
+        if (image.immutable && !byId) {
+            res.header("Cache-Control", "public, max-age=31536000, immutable");
+        } else if (image.immutable) {
+            res.header("Cache-Control", "public, max-age=604800");
+        } else {
+            res.header("Cache-Control", "public, max-age=3600");
+        }
+        if (req.fresh) {
+            res.status(304).end();
+            return;
+        }
+        res.header("Content-Type", "image/png");
+        res.send(image.buffer);
+    }
+
 }
@@ -0,0 +1,144 @@
+import { Application, Request, Response } from "express";
+import { checkTraffic, corsWithCredentialsMiddleware, getAndValidateApiKeyWithSecret, getIp, getVia, Maybe, md5, stripUuid, updateTraffic } from "../util";
+import { Skin } from "../database/schemas";
+import { Caching } from "../generator/Caching";
+import { IApiKeyDocument } from "../typings/db/IApiKeyDocument";
+import { ISkinDocument } from "../typings";
+import { SkinVisibility } from "../typings/db/ISkinDocument";
+import { debug, info } from "../util/colors";
+import { Generator } from "../generator/Generator";
+import { ClientInfo } from "../typings/ClientInfo";
+import { nextBreadColor } from "../typings/Bread";
+
+export const register = (app: Application) => {
+
+    app.use("/skin", corsWithCredentialsMiddleware);
+
+    app.patch("/skin/:uuid", async (req: Request, res: Response) => {
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
+        if (!apiKey) {
+            return;
+        }
+        const skin = await findOwnedSkin(req, res, apiKey);
+        if (!skin) {
+            return;
+        }
+        if (skin.duplicate > 0) {
+            // other clients got the same skin back, so it isn't this key's to rename or hide
+            res.status(409).json({ error: "skin is shared with other clients" });
+            return;
+        }
+
+        const name = req.body["name"];
+        if (typeof name !== "undefined") {
+            const nameStr = `${ name ?? "" }`;
+            if (nameStr.length > 20) {
+                res.status(400).json({ error: "invalid name" });
+                return;
+            }
+            // an empty name removes it
+            skin.name = nameStr.length > 0 ? nameStr : undefined;
+        }
+        const visibility = req.body["visibility"];
+        if (typeof visibility !== "undefined") {
+            if (visibility != SkinVisibility.PUBLIC && visibility != SkinVisibility.PRIVATE) {
+                res.status(400).json({ error: "invalid visibility" });
+                return;
+            }
+            skin.visibility = visibility == SkinVisibility.PRIVATE ? SkinVisibility.PRIVATE : SkinVisibility.PUBLIC;
+        }
+
+        await skin.save();
+        Caching.invalidateSkin(skin);
+        console.log(debug(`Skin #${ skin.id } updated by key ${ apiKey.name }`));
+
+        res.json(await skin.toResponseJson());
+    });
+
+    app.post("/skin/:uuid/refresh", async (req: Request, res: Response) => {
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
+        if (!apiKey) {
+            return;
+        }
+        // skins from before the key id was stored can be refreshed too
+        const skin = await findOwnedSkin(req, res, apiKey, true);
+        if (!skin) {
+            return;
+        }
+
+        // refreshing uses an account just like generating
+        const requestAllowed = await checkTraffic(req, res);
+        if (!requestAllowed) {
+            return;
+        }
+        await updateTraffic(req);
+
+        const breadcrumbId = md5(`${ getIp(req) }${ Date.now() }${ skin.id }${ Math.random() }`).substr(0, 8);
+        const breadcrumb = nextBreadColor()(breadcrumbId);
+        res.header("X-MineSkin-Breadcrumb", breadcrumbId);
+
+        const client: ClientInfo = {
+            userAgent: req.header("user-agent") || "n/a",
+            origin: req.header("origin"),
+            ip: getIp(req),
+            via: getVia(req),
+            apiKey: `${ apiKey.key.substr(0, 8) } ${ apiKey.name }`,
+            apiKeyId: apiKey.id
+        };
+        const refreshed = await Generator.refreshSkin(skin, client, { breadcrumb });
+        console.log(debug(`Skin #${ skin.id } refreshed by key ${ apiKey.name }`));
+
+        res.json(await refreshed.toResponseJson());
+    });
+
+    app.delete("/skin/:uuid", async (req: Request, res: Response) => {
+        const apiKey = await getAndValidateApiKeyWithSecret(req, res);
+        if (!apiKey) {
+            return;
+        }
+        const skin = await findOwnedSkin(req, res, apiKey);
+        if (!skin) {
+            return;
+        }
+
+        if (skin.duplicate > 0) {
+            // other clients generated the same skin and got this one back, so only release it
+            skin.apiKeyId = undefined;
+            skin.duplicate--;
+            await skin.save();
+            console.log(info(`Skin #${ skin.id } released by key ${ apiKey.name } (${ skin.duplicate } duplicates left)`));
+        } else {
+            await skin.delete();
+            console.log(info(`Skin #${ skin.id } deleted by key ${ apiKey.name }`));
+        }
+        Caching.invalidateSkin(skin);
+
+        res.json({
+            success: true,
+            msg: "skin deleted"
+        });
+    });
+
+    /**
+     * @param legacy whether to also accept skins that only have the old "<key prefix> <key name>" apiKey field
+     */
+    async function findOwnedSkin(req: Request, res: Response, apiKey: IApiKeyDocument, legacy: boolean = false): Promise<Maybe<ISkinDocument>> {
+        const owner: any[] = [{ apiKeyId: apiKey.id }];
+        if (legacy) {
+            owner.push({
+                apiKeyId: { $exists: false },
+                apiKey: `${ apiKey.key.substr(0, 8) } ${ apiKey.name }`
+            });
+        }
+        const skin = await Skin.findOne({
+            skinUuid: stripUuid(req.params["uuid"]),
+            $or: owner
+        }).exec();
+        if (!skin) {
+            res.status(404).json({ error: "skin not found" });
+            return undefined;
+        }
+        return skin;
+    }
+
+}
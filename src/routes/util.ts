@@ -1,11 +1,14 @@
 import { Application, Request, Response } from "express";
 import { Caching } from "../generator/Caching";
 import * as Sentry from "@sentry/node";
-import { corsMiddleware } from "../util";
+import { checkTraffic, corsMiddleware, updateTraffic, validateUrl } from "../util";
+import { UrlResolvers } from "../generator/UrlResolvers";
+import { generateLimiter } from "../util/rateLimiters";
 
 export const register = (app: Application) => {
 
     app.use("/validate", corsMiddleware);
+    app.use("/util", corsMiddleware);
 
     app.get("/validate/name/:name", (req: Request, res: Response) => {
         if (req.params["name"].length < 1 || req.params["name"].length > 16) {
@@ -73,4 +76,27 @@ export const register = (app: Application) => {
         })
     });
 
+    // resolvers can fetch pages, so this is limited like the generate requests
+    app.use("/util/resolveUrl", generateLimiter);
+
+    app.get("/util/resolveUrl", async (req: Request, res: Response) => {
+        const url = validateUrl(req.query["url"] as string);
+        if (!url) {
+            res.status(400).json({ error: "invalid url" });
+            return;
+        }
+        const requestAllowed = await checkTraffic(req, res);
+        if (!requestAllowed) {
+            return;
+        }
+        await updateTraffic(req);
+        const resolved = await UrlResolvers.resolve(url);
+        res.json({
+            original: resolved.original,
+            url: resolved.url,
+            resolver: resolved.resolver ?? null,
+            resolvers: UrlResolvers.names
+        });
+    });
+
 };
@@ -4,4 +4,7 @@ export interface ClientInfo {
     ip: string;
     via: string;
     apiKey?: string;
+    apiKeyId?: string;
+    /** Per-request webhook url, overrides the key's webhookUrl **/
+    callbackUrl?: string;
 }
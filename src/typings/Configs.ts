@@ -22,9 +22,19 @@ interface MongoConfig {
     database: string;
 }
 
-interface CryptoConfig {
+export interface CryptoConfig {
+    /** Cipher of old ciphertexts, new ones always use AES-256-GCM **/
     algorithm: string;
+    /** Key of ciphertexts from before keys had ids, used as the "legacy" key **/
     key: string;
+    /** Id of the key new ciphertexts are encrypted with, the legacy key if not set **/
+    currentKey?: string;
+    /** Keys by id, old keys have to stay here until everything is re-encrypted **/
+    keys?: { [id: string]: string };
+    /** Where keys are loaded from, the keys above if not set. "local" is only allowed in tests **/
+    keyProvider?: "config" | "file" | "env" | "local";
+    /** Directory with <key id>.key files, for the file key provider **/
+    keyDirectory?: string;
 }
 
 interface EmailConfig extends EmailOptions {
@@ -68,6 +78,16 @@ interface DelaysConfig {
     defaultApiKey: number;
 }
 
+interface AdminConfig {
+    /** Tokens for the /admin API by operator name, the name is recorded in the audit log **/
+    tokens: { [name: string]: string };
+}
+
+interface DuplicatesConfig {
+    /** Max. number of different bits between perceptual hashes for skins to be considered similar (0-3) **/
+    maxPhashDistance: number;
+}
+
 export interface MineSkinConfig {
     port: number;
     server: string;
@@ -91,6 +111,10 @@ export interface MineSkinConfig {
     metrics: MetricsConfig;
     gitconfig: GitConfigConfig;
     delays: DelaysConfig;
+    duplicates?: DuplicatesConfig;
+    admin?: AdminConfig;
+    /** Names of the url resolvers to use, all if not set **/
+    urlResolvers?: string[];
 }
 
 export function getLocalConfig(): MineSkinConfig {
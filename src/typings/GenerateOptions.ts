@@ -8,4 +8,12 @@ export interface GenerateOptions extends Bread {
     name?: string;
     visibility: SkinVisibility;
     checkOnly?: boolean;
+    /** Convert, scale down and strip the image instead of rejecting it **/
+    normalize?: boolean;
+    /** Convert 64x32 skins to the 64x64 layout before uploading them **/
+    upgradeLegacy?: boolean;
+    /** Reuse existing skins that look the same instead of only exact duplicates **/
+    allowSimilar?: boolean;
+    /** Uncolored breadcrumb, as sent to the client **/
+    breadcrumbId?: string;
 }
@@ -0,0 +1,29 @@
+import { GenerateType } from "./db/ISkinDocument";
+import { JobStatus } from "./db/IGenerateJobDocument";
+import { SkinInfo } from "./SkinInfo";
+
+export interface JobInfo {
+    jobId: string;
+    type: GenerateType;
+    status: JobStatus;
+    timestamp: number;
+    breadcrumb?: string;
+    batchId?: string;
+    index?: number;
+    /** Unix timestamp when a queued job is scheduled to start **/
+    scheduled?: number;
+    skin?: SkinInfo;
+    errorType?: string;
+    errorCode?: string;
+    error?: string;
+}
+
+export interface BatchInfo {
+    batchId: string;
+    total: number;
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+    jobs: JobInfo[];
+}
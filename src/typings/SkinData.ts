@@ -1,4 +1,5 @@
 import { ProfileProperty } from "./ProfileResponse";
+import { SkinHashes } from "../util/skinHash";
 
 export interface SkinData extends ProfileProperty {
     decodedValue?: SkinValue;
@@ -9,6 +10,8 @@ export interface SkinMeta {
     imageHash: string;
     mojangHash: string;
     minecraftSkinId?: string;
+    hashes?: SkinHashes;
+    capeUrl?: string;
 }
 
 export interface TextureMetadata {
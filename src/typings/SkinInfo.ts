@@ -35,5 +35,9 @@ export interface SkinInfo {
     private: boolean;
     views: number;
     duplicate?: boolean;
+    /** How the duplicate was found **/
+    duplicateSource?: string;
+    /** Changes made to the image before it was uploaded, if normalization or the legacy upgrade was requested **/
+    normalized?: string[];
     nextRequest?: number;
 }
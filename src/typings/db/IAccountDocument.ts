@@ -22,6 +22,12 @@ export enum AccessTokenSource {
     USER_LOGIN_MICROSOFT = "user_login_microsoft"
 }
 
+export interface AccountError {
+    code: string;
+    /** Time of the error (seconds) **/
+    time: number;
+}
+
 export interface IAccountDocument extends Document {
     id: number | any;
     /**@deprecated legacy email **/
@@ -48,6 +54,12 @@ export interface IAccountDocument extends Document {
     microsoftRefreshToken?: string;
     minecraftXboxUsername?: string;
     lastSelected?: number;
+    /** Server that last selected the account **/
+    lockOwner?: string;
+    /** Time until the account can't be selected again (seconds) **/
+    lockExpiresAt?: number;
+    /** Time of the last background token refresh attempt (seconds) **/
+    lastTokenRefresh?: number;
     timeAdded?: number;
     lastUsed?: number;
     enabled: boolean;
@@ -57,6 +69,8 @@ export interface IAccountDocument extends Document {
     totalSuccessCounter: number;
     lastGenerateSuccess: number;
     lastErrorCode: string;
+    /** Errors of the last few hours, newest last **/
+    recentErrors?: AccountError[];
     forcedTimeoutAt: number;
     lastTextureUrl: string;
     sameTextureCounter: number;
@@ -72,6 +86,7 @@ export interface IAccountDocument extends Document {
     discordMessageSent?: boolean;
     sendEmails?: boolean
     emailSent?: boolean;
+    /** Last computed health score **/
     ev?: number;
 
     getOrCreateClientToken(): string;
@@ -85,16 +100,46 @@ export interface IAccountDocument extends Document {
     authenticationHeader(): string;
 
     toSimplifiedString(): string;
+
+    /**
+     * Updates & returns the health score, between 0 and 1
+     */
+    getEV(): number;
 }
 
 export interface IAccountModel extends Model<IAccountDocument> {
     findUsable(bread?: Bread): Promise<IAccountDocument | undefined>;
 
+    /**
+     * Finds & locks an account of the server (or a shared one) with an access token that expires soon, and that hasn't been used or selected since idleSince
+     */
+    claimExpiringToken(server: string, expiresBefore: number, refreshedBefore: number, idleSince: number): Promise<IAccountDocument | null>;
+
+    /**
+     * Removes the account's lock, unless it has been locked again since
+     */
+    releaseLock(account: IAccountDocument): Promise<any>;
+
+    /**
+     * Finds enabled accounts of the server without errors that haven't been used or selected since idleSince
+     */
+    findIdle(server: string, idleSince: number, limit: number): Promise<IAccountDocument[]>;
+
+    /**
+     * Moves the account to another server, if it's still idle and not locked
+     */
+    moveIdle(account: IAccountDocument, toServer: string, idleSince: number): Promise<IAccountDocument | null>;
+
     countGlobalUsable(): Promise<number>;
 
     calculateMinDelay(): Promise<number>;
 
     getAccountsPerServer(accountType?: string): Promise<{ server: string, count: number }[]>;
 
+    /**
+     * Servers that selected an account since activeSince
+     */
+    getActiveServers(activeSince: number): Promise<string[]>;
+
     getPreferredAccountServer(accountType?: string): Promise<Maybe<string>>;
 }
@@ -0,0 +1,30 @@
+import { Document, Model } from "mongoose";
+
+export enum AdminAction {
+    ENABLE = "enable",
+    DISABLE = "disable",
+    RESET_ERRORS = "reset_errors",
+    CLEAR_TIMEOUT = "clear_timeout",
+    MOVE = "move",
+    REAUTHENTICATE = "reauthenticate"
+}
+
+export interface IAdminAuditLogDocument extends Document {
+    /** Name of the admin token that was used **/
+    actor: string;
+    action: AdminAction;
+    /** Numeric id of the affected account **/
+    account?: number;
+    /** Values of the changed fields before & after the action **/
+    before?: any;
+    after?: any;
+    success: boolean;
+    error?: string;
+    ip: string;
+    server: string;
+    time: Date;
+}
+
+export interface IAdminAuditLogModel extends Model<IAdminAuditLogDocument> {
+    findRecent(filter: { account?: number, actor?: string }, limit: number): Promise<IAdminAuditLogDocument[]>;
+}
@@ -12,6 +12,8 @@ export interface IApiKeyDocument extends Document {
     allowedOrigins?: string[];
     allowedIps?: string[];
     allowedAgents?: string[];
+    /** Receives a callback whenever a generate request of this key finishes **/
+    webhookUrl?: string;
 }
 
 export interface IApiKeyModel extends Model<IApiKeyDocument> {
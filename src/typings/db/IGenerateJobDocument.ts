@@ -0,0 +1,70 @@
+import { Document, Model } from "mongoose";
+import { Maybe } from "../../util";
+import { GenerateType, SkinModel, SkinVariant, SkinVisibility } from "./ISkinDocument";
+import { ClientInfo } from "../ClientInfo";
+
+export enum JobStatus {
+    QUEUED = "queued",
+    RUNNING = "running",
+    COMPLETED = "completed",
+    FAILED = "failed"
+}
+
+export interface IGenerateJobDocument extends Document {
+    /** Public ID of the job **/
+    jobId: string;
+    type: GenerateType;
+    status: JobStatus;
+    /** Server the job was submitted to and runs on **/
+    server: string;
+    breadcrumb?: string;
+
+    /** ID of the batch this job is part of **/
+    batchId?: string;
+    /** Position of the job in its batch **/
+    index?: number;
+
+    /** Source image url (url jobs) **/
+    url?: string;
+    /** User uuid (user jobs) **/
+    user?: string;
+    /** Uploaded image (upload jobs), removed once the job is done **/
+    file?: Buffer;
+
+    /**@deprecated**/
+    model: SkinModel | any;
+    variant: SkinVariant;
+    visibility: SkinVisibility;
+    name?: string;
+    checkOnly?: boolean;
+    normalize?: boolean;
+    upgradeLegacy?: boolean;
+    allowSimilar?: boolean;
+
+    client: ClientInfo;
+
+    createdAt: Date;
+    /** The job won't be started before this time **/
+    scheduledAt: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+
+    /** ID of the generated or duplicate skin **/
+    skin?: number;
+    duplicate?: boolean;
+    duplicateSource?: string;
+    /** Changes made to the image by normalization or the legacy upgrade **/
+    normalized?: string[];
+
+    errorType?: string;
+    errorCode?: string;
+    error?: string;
+}
+
+export interface IGenerateJobModel extends Model<IGenerateJobDocument> {
+    findForJobId(jobId: string): Promise<Maybe<IGenerateJobDocument>>;
+
+    findForBatchId(batchId: string): Promise<IGenerateJobDocument[]>;
+
+    claimNext(server: string): Promise<Maybe<IGenerateJobDocument>>;
+}
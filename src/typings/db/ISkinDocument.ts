@@ -27,6 +27,15 @@ export enum GenerateType {
     USER = "user"
 }
 
+export interface SkinSignatureHistoryEntry {
+    value: string;
+    signature: string;
+    url: string;
+    minecraftTextureHash?: string;
+    /** Time the data was replaced (seconds) **/
+    time: number;
+}
+
 export interface ISkinDocument extends Document {
     /** Unique numeric ID for this skin **/
     id: number | any;
@@ -34,6 +43,12 @@ export interface ISkinDocument extends Document {
 
     /** Hash of the texture image **/
     hash: string;
+    /** Perceptual hash of the texture image **/
+    phash?: string;
+    /** Parts of the perceptual hash, for similarity lookups **/
+    phashParts?: string[];
+    /** Hash of the texture image with transparent pixels normalized **/
+    canonicalHash?: string;
     /** UUID of the skin - Not unique - random for url/upload or user uuid **/
     uuid: string;
 
@@ -62,6 +77,8 @@ export interface ISkinDocument extends Document {
     /** Hash of the texture image downloaded from mojang **/
     textureHash: string;
     capeUrl?: string;
+    /** Previous texture data, from before the skin was refreshed **/
+    signatureHistory?: SkinSignatureHistoryEntry[];
 
     /** Time of generating the skin (seconds) **/
     time: number;
@@ -84,6 +101,8 @@ export interface ISkinDocument extends Document {
     ua?: string;
     /** Key used for request **/
     apiKey?: string;
+    /** ID of the ApiKey document that owns this skin **/
+    apiKeyId?: string;
     /** @deprecated **/
     apiVer?: string;
 
@@ -103,5 +122,9 @@ export interface ISkinModel extends Model<ISkinDocument> {
 
     findForUuid(uuid: string): Promise<Maybe<ISkinDocument>>;
 
+    findForHash(hash: string, variant: SkinVariant): Promise<Maybe<ISkinDocument>>;
+
+    findForTextureHash(textureHash: string, variant: SkinVariant): Promise<Maybe<ISkinDocument>>;
+
     attachTesterResult(id: number, server: string, mismatchCount: number): Promise<ISkinDocument>;
 }
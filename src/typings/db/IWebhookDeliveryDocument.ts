@@ -0,0 +1,44 @@
+import { Document, Model } from "mongoose";
+
+export enum WebhookEvent {
+    GENERATE_SUCCESS = "generate.success",
+    GENERATE_FAILED = "generate.failed"
+}
+
+export enum DeliveryStatus {
+    PENDING = "pending",
+    DELIVERED = "delivered",
+    FAILED = "failed"
+}
+
+export interface IWebhookDeliveryDocument extends Document {
+    deliveryId: string;
+    /** ID of the ApiKey document the delivery belongs to **/
+    apiKey: string;
+    /** Server which sends the delivery **/
+    server: string;
+    url: string;
+    event: WebhookEvent;
+    /** JSON body, stored as sent so the signature stays reproducible **/
+    payload: string;
+    status: DeliveryStatus;
+    attempts: number;
+    createdAt: Date;
+    nextAttemptAt?: Date;
+    lastAttemptAt?: Date;
+    deliveredAt?: Date;
+    lastStatusCode?: number;
+    lastError?: string;
+}
+
+export interface IWebhookDeliveryModel extends Model<IWebhookDeliveryDocument> {
+    findForApiKey(apiKey: string, limit: number): Promise<IWebhookDeliveryDocument[]>;
+
+    findDue(server: string, limit: number): Promise<IWebhookDeliveryDocument[]>;
+
+    /**
+     * Increments the attempts & sets the next attempt time, only if the attempts haven't changed in the meantime
+     * @return the updated delivery, or null if it was already claimed
+     */
+    claimAttempt(delivery: IWebhookDeliveryDocument, nextAttemptAt: Date): Promise<IWebhookDeliveryDocument | null>;
+}
@@ -1,39 +1,124 @@
 import * as crypto from "crypto";
 import { getConfig } from "../typings/Configs";
+import { Maybe } from "./index";
+import { KeyProviders, LEGACY_KEY_ID } from "./KeyProviders";
 
 // https://gist.github.com/vlucas/2bd40f62d20c1d49237a109d491974eb
 
-const IV_LENGTH = 16; // For AES, this is always 16
+const GCM_ALGORITHM = "aes-256-gcm";
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+
+// Formats, base64 never contains a colon so the versioned ones can't be confused with the first:
+//  base64(<iv>:<ciphertext>)                   config.crypto.algorithm with the legacy key
+//  v2:<key id>:<iv>:<ciphertext>               config.crypto.algorithm
+//  v3:<key id>:<iv>:<auth tag>:<ciphertext>    AES-256-GCM, the key id is authenticated too
+const CBC_VERSION = "v2";
+const GCM_VERSION = "v3";
 
 export class Encryption {
 
     static async encrypt(text: string): Promise<string> {
         const config = await getConfig();
-        const ENCRYPTION_KEY = config.crypto.key; // Must be 256 bytes (32 characters)
-
-        const iv = crypto.randomBytes(IV_LENGTH);
-        const cipher = crypto.createCipheriv(config.crypto.algorithm, Buffer.from(ENCRYPTION_KEY), iv);
-        let encrypted = cipher.update(text);
+        const keyId = config.crypto.currentKey || LEGACY_KEY_ID;
+        const key = await (await KeyProviders.get()).getKey(keyId);
 
-        encrypted = Buffer.concat([encrypted, cipher.final()]);
+        const iv = crypto.randomBytes(GCM_IV_LENGTH);
+        const cipher = crypto.createCipheriv(GCM_ALGORITHM, key, iv, { authTagLength: GCM_TAG_LENGTH });
+        cipher.setAAD(Buffer.from(GCM_VERSION + ':' + keyId));
+        const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
 
-        return Buffer.from(iv.toString('hex') + ':' + encrypted.toString('hex')).toString('base64')
+        return [GCM_VERSION, keyId, iv.toString('hex'), cipher.getAuthTag().toString('hex'), encrypted.toString('hex')].join(':');
     }
 
 
     static async decrypt(text: string): Promise<string> {
-        const config = await getConfig();
-        const ENCRYPTION_KEY = config.crypto.key; // Must be 256 bytes (32 characters)
+        const keyProvider = await KeyProviders.get();
+        const textParts = text.split(':');
+
+        if (textParts[0] === GCM_VERSION) {
+            const keyId = textParts[1];
+            const key = await keyProvider.getKey(keyId);
+            const decipher = crypto.createDecipheriv(GCM_ALGORITHM, key, Buffer.from(textParts[2], 'hex'), { authTagLength: GCM_TAG_LENGTH });
+            decipher.setAAD(Buffer.from(GCM_VERSION + ':' + keyId));
+            decipher.setAuthTag(Buffer.from(textParts[3], 'hex'));
+            // final() throws if the ciphertext or tag were modified
+            return Buffer.concat([decipher.update(Buffer.from(textParts[4], 'hex')), decipher.final()]).toString('utf8');
+        }
+
+        if (textParts[0] === CBC_VERSION) {
+            return await Encryption.decryptCbc(await keyProvider.getKey(textParts[1]), textParts[2], textParts[3]);
+        }
+
+        const legacyParts = Buffer.from(text, 'base64').toString('ascii').split(':');
+        const iv = legacyParts.shift() as string;
+        return await Encryption.decryptCbc(await keyProvider.getKey(LEGACY_KEY_ID), iv, legacyParts.join(':'));
+    }
 
-        const textParts = Buffer.from(text, 'base64').toString('ascii').split(':');
-        const iv = Buffer.from(textParts.shift() as string, 'hex');
-        const encryptedText = Buffer.from(textParts.join(':'), 'hex');
-        const decipher = crypto.createDecipheriv(config.crypto.algorithm, Buffer.from(ENCRYPTION_KEY), iv);
-        let decrypted = decipher.update(encryptedText);
+    protected static async decryptCbc(key: Buffer, ivHex: string, encryptedHex: string): Promise<string> {
+        const config = await getConfig();
+        const decipher = crypto.createDecipheriv(config.crypto.algorithm, key, Buffer.from(ivHex, 'hex'));
+        let decrypted = decipher.update(Buffer.from(encryptedHex, 'hex'));
 
         decrypted = Buffer.concat([decrypted, decipher.final()]);
 
         return decrypted.toString();
     }
 
+    /**
+     * Whether the text is ciphertext with a key id. The original format can't be told apart from plain text.
+     */
+    static isVersioned(text: string): boolean {
+        return text.startsWith(GCM_VERSION + ':') || text.startsWith(CBC_VERSION + ':');
+    }
+
+    /**
+     * Id of the key the text was encrypted with, assuming it's ciphertext
+     */
+    static getKeyId(text: string): string {
+        if (Encryption.isVersioned(text)) {
+            return text.split(':')[1];
+        }
+        return LEGACY_KEY_ID;
+    }
+
+    /**
+     * Whether the ciphertext isn't encrypted with the current key, or uses an old format
+     */
+    static async needsReEncryption(text: string): Promise<boolean> {
+        return !text.startsWith(await Encryption.getCurrentPrefix());
+    }
+
+    /**
+     * Prefix of ciphertexts encrypted with the current key
+     */
+    static async getCurrentPrefix(): Promise<string> {
+        const config = await getConfig();
+        return GCM_VERSION + ':' + (config.crypto.currentKey || LEGACY_KEY_ID) + ':';
+    }
+
+    static async reEncrypt(text: string): Promise<string> {
+        return await Encryption.encrypt(await Encryption.decrypt(text));
+    }
+
+    /**
+     * Encrypts a token, keeps empty values as they are
+     */
+    static async encryptToken(token: Maybe<string>): Promise<Maybe<string>> {
+        if (!token) {
+            return token;
+        }
+        return await Encryption.encrypt(token);
+    }
+
+    /**
+     * Decrypts a token, tokens that were stored before they were encrypted are returned as-is
+     */
+    static async decryptToken(token: Maybe<string>): Promise<Maybe<string>> {
+        if (!token || !Encryption.isVersioned(token)) {
+            return token;
+        }
+        return await Encryption.decrypt(token);
+    }
+
 }
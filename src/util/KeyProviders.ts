@@ -0,0 +1,163 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CryptoConfig, getConfig } from "../typings/Configs";
+import { Maybe } from "./index";
+
+// ciphertexts from before there were key ids always use this key
+export const LEGACY_KEY_ID = "legacy";
+
+const KEY_LENGTH = 32; // AES-256
+const ENV_PREFIX = "MINESKIN_CRYPTO_KEY_";
+
+/**
+ * Source of the raw encryption keys, by key id
+ */
+export interface KeyProvider {
+    readonly name: string;
+
+    /**
+     * @throws Error if there is no such key
+     */
+    getKey(keyId: string): Promise<Buffer>;
+}
+
+/**
+ * Keys from the (merged git) config, config.crypto.key is the legacy key
+ */
+export class ConfigKeyProvider implements KeyProvider {
+    readonly name = "config";
+
+    constructor(private readonly config: CryptoConfig) {
+    }
+
+    async getKey(keyId: string): Promise<Buffer> {
+        const key = keyId === LEGACY_KEY_ID ? this.config.key : this.config.keys?.[keyId];
+        if (!key) {
+            throw new Error("Unknown encryption key " + keyId);
+        }
+        return parseKey(key, keyId);
+    }
+}
+
+/**
+ * Keys from <directory>/<key id>.key files, which aren't part of any config repository
+ */
+export class FileKeyProvider implements KeyProvider {
+    readonly name = "file";
+
+    protected readonly keys = new Map<string, Buffer>();
+
+    constructor(private readonly directory: string) {
+    }
+
+    async getKey(keyId: string): Promise<Buffer> {
+        let key = this.keys.get(keyId);
+        if (!key) {
+            if (!/^[a-zA-Z0-9_-]+$/.test(keyId)) {
+                throw new Error("Invalid encryption key id " + keyId);
+            }
+            const content = await fs.promises.readFile(path.join(this.directory, keyId + ".key"), "utf8")
+                .catch(err => {
+                    throw new Error("Failed to read encryption key " + keyId + ": " + err.message);
+                });
+            key = parseKey(content.trim(), keyId);
+            this.keys.set(keyId, key);
+        }
+        return key;
+    }
+}
+
+/**
+ * Keys from MINESKIN_CRYPTO_KEY_<KEY ID> environment variables
+ */
+export class EnvKeyProvider implements KeyProvider {
+    readonly name = "env";
+
+    constructor(private readonly env: NodeJS.ProcessEnv = process.env) {
+    }
+
+    async getKey(keyId: string): Promise<Buffer> {
+        const key = this.env[ENV_PREFIX + keyId.toUpperCase().replace(/[^A-Z0-9]/g, "_")];
+        if (!key) {
+            throw new Error("Unknown encryption key " + keyId);
+        }
+        return parseKey(key, keyId);
+    }
+}
+
+/**
+ * Stand-in for a KMS in tests, keys are random and only kept in memory.
+ * Anything encrypted with it can't be decrypted after a restart, so it can't be configured outside of tests.
+ */
+export class LocalKmsKeyProvider implements KeyProvider {
+    readonly name = "local";
+
+    protected readonly keys = new Map<string, Buffer>();
+
+    async getKey(keyId: string): Promise<Buffer> {
+        let key = this.keys.get(keyId);
+        if (!key) {
+            key = crypto.randomBytes(KEY_LENGTH);
+            this.keys.set(keyId, key);
+        }
+        return key;
+    }
+}
+
+export class KeyProviders {
+
+    protected static provider: Maybe<KeyProvider>;
+
+    /**
+     * The provider selected by config.crypto.keyProvider, keys from the config if not set
+     */
+    static async get(): Promise<KeyProvider> {
+        if (!this.provider) {
+            const config = await getConfig();
+            this.provider = this.create(config.crypto);
+        }
+        return this.provider;
+    }
+
+    /**
+     * Replaces the configured provider, e.g. with a {@link LocalKmsKeyProvider}
+     */
+    static use(provider: KeyProvider): void {
+        this.provider = provider;
+    }
+
+    protected static create(config: CryptoConfig): KeyProvider {
+        switch (config.keyProvider) {
+            case undefined:
+            case "config":
+                return new ConfigKeyProvider(config);
+            case "file":
+                if (!config.keyDirectory) {
+                    throw new Error("crypto.keyDirectory is required for the file key provider");
+                }
+                return new FileKeyProvider(config.keyDirectory);
+            case "env":
+                return new EnvKeyProvider();
+            case "local":
+                if (process.env.NODE_ENV !== "test") {
+                    throw new Error("The local key provider is only available in tests");
+                }
+                return new LocalKmsKeyProvider();
+            default:
+                throw new Error("Unknown key provider " + config.keyProvider);
+        }
+    }
+
+}
+
+/**
+ * Keys are either 64 hex characters or 32 characters used as-is, like the original config key
+ */
+function parseKey(key: string, keyId: string): Buffer {
+    const buffer = /^[0-9a-fA-F]{64}$/.test(key) ? Buffer.from(key, "hex") : Buffer.from(key);
+    if (buffer.length !== KEY_LENGTH) {
+        throw new Error("Encryption key " + keyId + " has to be " + KEY_LENGTH + " bytes");
+    }
+    return buffer;
+}
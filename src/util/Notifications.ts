@@ -94,6 +94,15 @@ export class Notifications {
             })
     }
 
+    static notifyRefreshFailed(account: IAccountDocument, err: MineSkinError): void {
+        // Log channel only, the account can still login when it's used next
+        Discord.postDiscordMessage("⚠️ 👤 Account #" + account.id + " failed to refresh its access token\n" +
+            "  UUID: " + account.uuid + "\n" +
+            "  Error: " + err.msg + "\n" +
+            "  Current Server: " + account.lastRequestServer + "/" + account.requestServer + "\n" +
+            "  Account Type: " + account.getAccountType() + "\n" +
+            "  Token Expires: " + new Date((account.accessTokenExpiration || 0) * 1000).toUTCString());
+    }
 
     static notifyHighErrorCount(account: IAccountDocument, lastType: GenerateType, err: any): void {
         // Log channel
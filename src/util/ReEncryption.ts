@@ -0,0 +1,117 @@
+import * as Sentry from "@sentry/node";
+import { Account } from "../database/schemas";
+import { IAccountDocument } from "../typings";
+import { Maybe } from "./index";
+import { debug, info, warn } from "./colors";
+import { Encryption } from "./Encryption";
+
+const PROCESS_INTERVAL = 60000;
+const ACCOUNTS_PER_RUN = 50;
+
+// always ciphertext, from before key ids or with an old key
+const ENCRYPTED_FIELDS = ["passwordNew"];
+// might still be plain text, from before tokens were encrypted
+const TOKEN_FIELDS = ["microsoftAccessToken", "microsoftRefreshToken"];
+
+/**
+ * Re-encrypts account credentials with the current key, after it was rotated (or to encrypt old plain text tokens).
+ * Accounts that are done don't match the query anymore, so this just continues where it left off after a restart.
+ */
+export class ReEncryption {
+
+    protected static processing = false;
+    protected static processTimer: Maybe<NodeJS.Timeout>;
+    // accounts that failed are skipped until the next pass
+    protected static lastId: Maybe<any> = undefined;
+
+    static async start(): Promise<void> {
+        this.processTimer = setInterval(() => ReEncryption.processAccounts(), PROCESS_INTERVAL);
+    }
+
+    protected static async processAccounts(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+        try {
+            const currentKey = new RegExp("^" + escapeRegex(await Encryption.getCurrentPrefix()));
+            const query: any = {
+                $or: [...ENCRYPTED_FIELDS, ...TOKEN_FIELDS].map(field => ({
+                    [field]: { $nin: [null, ""], $not: currentKey }
+                }))
+            };
+            if (this.lastId) {
+                query._id = { $gt: this.lastId };
+            }
+            const accounts = await Account.find(query).sort({ _id: 1 }).limit(ACCOUNTS_PER_RUN).exec();
+            if (accounts.length <= 0) {
+                if (this.lastId) {
+                    console.log(debug("[ReEncryption] Finished pass over accounts"));
+                }
+                this.lastId = undefined;
+                return;
+            }
+            for (const account of accounts) {
+                this.lastId = account._id;
+                await this.reEncrypt(account);
+            }
+        } catch (e) {
+            Sentry.captureException(e);
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    protected static async reEncrypt(account: IAccountDocument): Promise<void> {
+        const unchanged: { [field: string]: string } = {};
+        const updated: { [field: string]: string } = {};
+        try {
+            for (const field of ENCRYPTED_FIELDS) {
+                const value = account.get(field) as Maybe<string>;
+                if (value && await Encryption.needsReEncryption(value)) {
+                    unchanged[field] = value;
+                    updated[field] = await Encryption.reEncrypt(value);
+                }
+            }
+            for (const field of TOKEN_FIELDS) {
+                const value = account.get(field) as Maybe<string>;
+                if (value && await Encryption.needsReEncryption(value)) {
+                    unchanged[field] = value;
+                    updated[field] = (await Encryption.encryptToken(await Encryption.decryptToken(value)))!;
+                }
+            }
+        } catch (e) {
+            console.warn(warn("[ReEncryption] Failed to re-encrypt " + account.toSimplifiedString() + ": " + e.message));
+            Sentry.captureException(e, {
+                tags: {
+                    account: account.id
+                }
+            });
+            return;
+        }
+        if (Object.keys(updated).length <= 0) {
+            return;
+        }
+        // don't overwrite new tokens from a refresh that happened in the meantime, the next pass gets those
+        const result = await Account.updateOne({
+            _id: account._id,
+            ...unchanged
+        }, {
+            $set: updated
+        }).exec();
+        if (result.nModified > 0) {
+            console.log(info("[ReEncryption] Re-encrypted " + Object.keys(updated).join(", ") + " of " + account.toSimplifiedString()));
+        }
+    }
+
+    static end() {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+}
+
+function escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,198 @@
+import * as Sentry from "@sentry/node";
+import * as path from "path";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import { SafeFetch } from "../generator/SafeFetch";
+import { RENDER_DIR } from "../generator/Temp";
+import { getHashFromMojangTextureUrl, Maybe } from "./index";
+import { Renderer, RenderOptions, RenderType } from "./Renderer";
+import { debug } from "./colors";
+
+const TEXTURE_DIR = path.join(RENDER_DIR, "textures");
+const IMAGE_DIR = path.join(RENDER_DIR, "images");
+// renders of textures from any other url, anyone can fill this so it's limited in size
+const URL_IMAGE_DIR = path.join(RENDER_DIR, "url-images");
+
+const MAX_FILE_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_URL_IMAGES_SIZE = 200000000; // 200MB
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+const MAX_TEXTURE_SIZE = 1000000; // 1MB
+const MAX_TEXTURE_REDIRECTS = 5;
+
+export interface CachedImage {
+    buffer: Buffer;
+    /** Mojang texture hash, or content hash for other textures **/
+    hash: string;
+    modified: Date;
+    /** Whether the image can't change, i.e. it's derived from a Mojang texture **/
+    immutable: boolean;
+}
+
+/**
+ * Stores textures & renders on disk, keyed by the texture hash and render options
+ */
+export class RenderCache {
+
+    protected static cleanupTimer: Maybe<NodeJS.Timeout>;
+    protected static cleaningUp = false;
+    // written since the last cleanup, to clean up early if a lot is rendered
+    protected static urlImagesWritten = 0;
+
+    static async init(): Promise<void> {
+        await fs.mkdir(TEXTURE_DIR, { recursive: true });
+        await fs.mkdir(IMAGE_DIR, { recursive: true });
+        await fs.mkdir(URL_IMAGE_DIR, { recursive: true });
+        this.cleanupTimer = setInterval(() => RenderCache.cleanup(), CLEANUP_INTERVAL);
+    }
+
+    static async getTexture(url: string, textureHash?: string): Promise<CachedImage> {
+        textureHash = textureHash || getHashFromMojangTextureUrl(url);
+        if (!textureHash) {
+            // not necessarily the same image next time, so only the renders are cached
+            const buffer = await this.download(url);
+            return {
+                buffer: buffer,
+                hash: crypto.createHash("sha1").update(buffer).digest("hex"),
+                modified: new Date(),
+                immutable: false
+            };
+        }
+
+        const file = path.join(TEXTURE_DIR, `${ textureHash }.png`);
+        const cached = await this.read(file);
+        if (cached) {
+            return {
+                ...cached,
+                hash: textureHash,
+                immutable: true
+            };
+        }
+        const buffer = await this.download(url);
+        await this.write(file, buffer);
+        return {
+            buffer: buffer,
+            hash: textureHash,
+            modified: new Date(),
+            immutable: true
+        };
+    }
+
+    static async getRender(texture: CachedImage, type: RenderType, options: RenderOptions): Promise<CachedImage> {
+        const key = [
+            texture.hash,
+            type,
+            options.scale,
+            options.overlay ? "overlay" : "base",
+            options.background?.toString(16) ?? "transparent",
+            options.variant ?? "auto"
+        ].join("_");
+        const file = path.join(texture.immutable ? IMAGE_DIR : URL_IMAGE_DIR, `${ key }.png`);
+        const cached = await this.read(file);
+        if (cached) {
+            return {
+                ...cached,
+                hash: key,
+                immutable: texture.immutable
+            };
+        }
+        const buffer = await Renderer.render(texture.buffer, type, options);
+        await this.write(file, buffer);
+        if (!texture.immutable) {
+            this.urlImagesWritten += buffer.length;
+            if (this.urlImagesWritten > MAX_URL_IMAGES_SIZE / 10) {
+                this.cleanup();
+            }
+        }
+        return {
+            buffer: buffer,
+            hash: key,
+            modified: new Date(),
+            immutable: texture.immutable
+        };
+    }
+
+    protected static async download(url: string): Promise<Buffer> {
+        const response = await SafeFetch.get(url, {
+            maxBytes: MAX_TEXTURE_SIZE,
+            maxRedirects: MAX_TEXTURE_REDIRECTS
+        });
+        return response.data;
+    }
+
+    protected static async read(file: string): Promise<Maybe<{ buffer: Buffer, modified: Date }>> {
+        try {
+            const stat = await fs.stat(file);
+            const buffer = await fs.readFile(file);
+            return {
+                buffer: buffer,
+                modified: stat.mtime
+            };
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    protected static async write(file: string, buffer: Buffer): Promise<void> {
+        try {
+            // write & rename, so concurrent requests never read a partial file
+            const tmpFile = `${ file }.${ process.pid }.${ Date.now() }.tmp`;
+            await fs.writeFile(tmpFile, buffer);
+            await fs.rename(tmpFile, file);
+        } catch (e) {
+            Sentry.captureException(e);
+        }
+    }
+
+    protected static async cleanup(): Promise<void> {
+        if (this.cleaningUp) {
+            return;
+        }
+        this.cleaningUp = true;
+        this.urlImagesWritten = 0;
+        let removed = 0;
+        const now = Date.now();
+        try {
+            for (const dir of [TEXTURE_DIR, IMAGE_DIR, URL_IMAGE_DIR]) {
+                try {
+                    const files = await fs.readdir(dir);
+                    const stats: { file: string, size: number, mtime: number }[] = [];
+                    for (const name of files) {
+                        const file = path.join(dir, name);
+                        const stat = await fs.stat(file).catch(() => undefined);
+                        if (stat) {
+                            stats.push({ file: file, size: stat.size, mtime: stat.mtime.getTime() });
+                        }
+                    }
+                    // oldest first
+                    stats.sort((a, b) => a.mtime - b.mtime);
+                    let size = stats.reduce((total, s) => total + s.size, 0);
+                    for (const stat of stats) {
+                        const expired = now - stat.mtime > MAX_FILE_AGE;
+                        const tooLarge = dir === URL_IMAGE_DIR && size > MAX_URL_IMAGES_SIZE;
+                        if (!expired && !tooLarge) {
+                            break;
+                        }
+                        await fs.unlink(stat.file).catch(() => undefined);
+                        size -= stat.size;
+                        removed++;
+                    }
+                } catch (e) {
+                    Sentry.captureException(e);
+                }
+            }
+        } finally {
+            this.cleaningUp = false;
+        }
+        if (removed > 0) {
+            console.log(debug("Removed " + removed + " old files from render cache"));
+        }
+    }
+
+    static end() {
+        if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+        }
+    }
+
+}
@@ -0,0 +1,269 @@
+import * as Jimp from "jimp";
+import imageSize from "image-size";
+import * as qs from "querystring";
+import { SkinVariant } from "../typings/db/ISkinDocument";
+import { Maybe } from "./index";
+import { applySkinAlpha, BoxFace, detectSkinVariant, getFace, getSkinParts, isLegacySkin, TextureBox, upgradeLegacySkin } from "./skinTexture";
+
+export enum RenderType {
+    HEAD = "head",
+    FACE = "face",
+    FRONT = "front",
+    BACK = "back"
+}
+
+export interface RenderOptions {
+    /** Size of a texture pixel in the output **/
+    scale: number;
+    /** Whether to draw the second (hat/jacket/sleeve/pants) layer **/
+    overlay: boolean;
+    /** RGBA background color, transparent if not set **/
+    background?: number;
+    /** Model to render, detected from the texture if not set **/
+    variant?: SkinVariant;
+}
+
+const DEFAULT_SCALE = 8;
+const MAX_SCALE = 32;
+
+// Brightness of the isometric head faces
+const SHADE_TOP = 1.0;
+const SHADE_FRONT = 0.9;
+const SHADE_SIDE = 0.75;
+
+const COS_30 = Math.cos(Math.PI / 6);
+const SIN_30 = 0.5;
+
+// Positions of the 2D body parts, in texture pixels
+const BODY_WIDTH = 16;
+const BODY_HEIGHT = 32;
+
+type Affine = [number, number, number, number, number, number];
+
+export class Renderer {
+
+    /**
+     * Parses the options query parameter, e.g. <code>scale=4&overlay=false&background=ffffff&model=slim</code>
+     */
+    static parseOptions(str?: string): RenderOptions {
+        const parsed = qs.parse(str || "");
+        const single = (key: string): Maybe<string> => {
+            const value = parsed[key];
+            return Array.isArray(value) ? value[0] : value;
+        };
+
+        let scale = parseInt(single("scale") ?? "");
+        if (isNaN(scale) || scale < 1) {
+            scale = DEFAULT_SCALE;
+        }
+        scale = Math.min(scale, MAX_SCALE);
+
+        const overlayStr = single("overlay");
+        const overlay = !(overlayStr === "false" || overlayStr === "0");
+
+        let background: Maybe<number> = undefined;
+        const backgroundStr = single("background");
+        if (backgroundStr && /^#?([0-9a-f]{6}|[0-9a-f]{8})$/i.test(backgroundStr)) {
+            let hex = backgroundStr.replace("#", "");
+            if (hex.length === 6) {
+                hex += "ff";
+            }
+            background = parseInt(hex, 16) >>> 0;
+        }
+
+        let variant: Maybe<SkinVariant> = undefined;
+        const modelStr = (single("model") || single("variant") || "").toLowerCase();
+        if (modelStr === "slim" || modelStr === "alex") {
+            variant = SkinVariant.SLIM;
+        } else if (modelStr === "classic" || modelStr === "default" || modelStr === "steve") {
+            variant = SkinVariant.CLASSIC;
+        }
+
+        return {
+            scale,
+            overlay,
+            background,
+            variant
+        };
+    }
+
+    static async render(texture: Buffer, type: RenderType, options: RenderOptions): Promise<Buffer> {
+        // textures can come from any url, so check the size in the header before decoding all of it
+        if (!hasSkinHeaderSize(texture)) {
+            throw new Error("Invalid skin dimensions");
+        }
+        let skin = await Jimp.read(texture);
+        if (!isSkinSize(skin.getWidth(), skin.getHeight())) {
+            throw new Error("Invalid skin dimensions");
+        }
+        const legacy = isLegacySkin(skin);
+        const variant = options.variant && options.variant !== SkinVariant.UNKNOWN ? options.variant : detectSkinVariant(skin);
+        skin = upgradeLegacySkin(skin);
+        applySkinAlpha(skin, legacy);
+
+        let image: Jimp;
+        switch (type) {
+            case RenderType.HEAD:
+                image = this.renderHead(skin, options);
+                break;
+            case RenderType.FACE:
+                image = this.renderFace(skin, options);
+                break;
+            case RenderType.FRONT:
+            case RenderType.BACK:
+                image = this.renderBody(skin, variant, type === RenderType.BACK, options);
+                break;
+        }
+        return image.getBufferAsync(Jimp.MIME_PNG);
+    }
+
+    protected static renderFace(skin: Jimp, options: RenderOptions): Jimp {
+        const parts = getSkinParts(SkinVariant.CLASSIC);
+        const image = new Jimp(8, 8, 0x00000000);
+        this.drawFlat(skin, image, getFace(parts.head.base, "front"), 0, 0);
+        if (options.overlay) {
+            this.drawFlat(skin, image, getFace(parts.head.overlay, "front"), 0, 0);
+        }
+        return this.scaleAndFill(image, options);
+    }
+
+    protected static renderBody(skin: Jimp, variant: SkinVariant, back: boolean, options: RenderOptions): Jimp {
+        const parts = getSkinParts(variant);
+        const armWidth = parts.rightArm.base.width;
+        const face: BoxFace = back ? "back" : "front";
+        // seen from behind, the left side of the character is on the left of the image
+        const leftArm = back ? parts.rightArm : parts.leftArm;
+        const rightArm = back ? parts.leftArm : parts.rightArm;
+        const leftLeg = back ? parts.rightLeg : parts.leftLeg;
+        const rightLeg = back ? parts.leftLeg : parts.rightLeg;
+        const layout: [TextureBox, TextureBox, number, number][] = [
+            [parts.head.base, parts.head.overlay, 4, 0],
+            [parts.body.base, parts.body.overlay, 4, 8],
+            [rightArm.base, rightArm.overlay, 4 - armWidth, 8],
+            [leftArm.base, leftArm.overlay, 12, 8],
+            [rightLeg.base, rightLeg.overlay, 4, 20],
+            [leftLeg.base, leftLeg.overlay, 8, 20]
+        ];
+
+        const image = new Jimp(BODY_WIDTH, BODY_HEIGHT, 0x00000000);
+        for (const [base, , x, y] of layout) {
+            this.drawFlat(skin, image, getFace(base, face), x, y);
+        }
+        if (options.overlay) {
+            for (const [, overlay, x, y] of layout) {
+                this.drawFlat(skin, image, getFace(overlay, face), x, y);
+            }
+        }
+        return this.scaleAndFill(image, options);
+    }
+
+    /**
+     * Isometric view of the head, showing the top, front and right side
+     */
+    protected static renderHead(skin: Jimp, options: RenderOptions): Jimp {
+        const parts = getSkinParts(SkinVariant.CLASSIC);
+        const scale = options.scale;
+        // sized to fit the hat, so both variants have the same dimensions
+        const extent = 9;
+        const width = Math.ceil(2 * extent * COS_30 * scale);
+        const height = 2 * extent * scale;
+        const image = new Jimp(width, height, options.background ?? 0x00000000);
+
+        const cubes: [TextureBox, number, number][] = [[parts.head.base, 0, 8]];
+        if (options.overlay) {
+            cubes.push([parts.head.overlay, -0.5, 9]);
+        }
+        for (const [box, origin, size] of cubes) {
+            const k = size / box.width;
+            this.drawProjected(skin, image, getFace(box, "right"), [k * COS_30, 0, k * SIN_30, k, -size * COS_30, -size * SIN_30], SHADE_SIDE);
+            this.drawProjected(skin, image, getFace(box, "front"), [k * COS_30, 0, -k * SIN_30, k, 0, origin * (1 - 2 * SIN_30)], SHADE_FRONT);
+            this.drawProjected(skin, image, getFace(box, "top"), [k * COS_30, k * COS_30, -k * SIN_30, k * SIN_30, -size * COS_30, -size * SIN_30], SHADE_TOP);
+        }
+        return image;
+    }
+
+    /**
+     * Draws a texture face using an affine map from face pixels to screen units (centered on the image)
+     * given as [a, b, c, d, tx, ty] with screenX = a*u + b*v + tx and screenY = c*u + d*v + ty
+     */
+    protected static drawProjected(skin: Jimp, image: Jimp, rect: { x: number, y: number, width: number, height: number }, map: Affine, shade: number): void {
+        const [a, b, c, d, tx, ty] = map;
+        const det = a * d - b * c;
+        const scale = image.getHeight() / 18;
+        const centerX = image.getWidth() / 2;
+        const centerY = image.getHeight() / 2;
+
+        // screen bounds of the face
+        const corners = [[0, 0], [rect.width, 0], [0, rect.height], [rect.width, rect.height]]
+            .map(([u, v]) => [a * u + b * v + tx, c * u + d * v + ty]);
+        const minX = Math.max(0, Math.floor(Math.min(...corners.map(p => p[0])) * scale + centerX));
+        const maxX = Math.min(image.getWidth(), Math.ceil(Math.max(...corners.map(p => p[0])) * scale + centerX));
+        const minY = Math.max(0, Math.floor(Math.min(...corners.map(p => p[1])) * scale + centerY));
+        const maxY = Math.min(image.getHeight(), Math.ceil(Math.max(...corners.map(p => p[1])) * scale + centerY));
+
+        for (let py = minY; py < maxY; py++) {
+            for (let px = minX; px < maxX; px++) {
+                const sx = (px + 0.5 - centerX) / scale - tx;
+                const sy = (py + 0.5 - centerY) / scale - ty;
+                const u = (d * sx - b * sy) / det;
+                const v = (a * sy - c * sx) / det;
+                if (u < 0 || v < 0 || u >= rect.width || v >= rect.height) {
+                    continue;
+                }
+                const srcIdx = skin.getPixelIndex(rect.x + Math.floor(u), rect.y + Math.floor(v));
+                const data = skin.bitmap.data;
+                blendPixel(image, px, py, data[srcIdx] * shade, data[srcIdx + 1] * shade, data[srcIdx + 2] * shade, data[srcIdx + 3]);
+            }
+        }
+    }
+
+    protected static drawFlat(skin: Jimp, image: Jimp, rect: { x: number, y: number, width: number, height: number }, x: number, y: number): void {
+        const data = skin.bitmap.data;
+        skin.scan(rect.x, rect.y, rect.width, rect.height, (sx, sy, idx) => {
+            blendPixel(image, x + sx - rect.x, y + sy - rect.y, data[idx], data[idx + 1], data[idx + 2], data[idx + 3]);
+        });
+    }
+
+    protected static scaleAndFill(image: Jimp, options: RenderOptions): Jimp {
+        image.resize(image.getWidth() * options.scale, image.getHeight() * options.scale, Jimp.RESIZE_NEAREST_NEIGHBOR);
+        if (typeof options.background === "undefined") {
+            return image;
+        }
+        const background = new Jimp(image.getWidth(), image.getHeight(), options.background);
+        const data = image.bitmap.data;
+        image.scan(0, 0, image.getWidth(), image.getHeight(), (x, y, idx) => {
+            blendPixel(background, x, y, data[idx], data[idx + 1], data[idx + 2], data[idx + 3]);
+        });
+        return background;
+    }
+
+}
+
+function blendPixel(image: Jimp, x: number, y: number, r: number, g: number, b: number, a: number): void {
+    if (a <= 0) {
+        return;
+    }
+    const data = image.bitmap.data;
+    const idx = image.getPixelIndex(x, y);
+    const srcA = a / 255;
+    const dstA = data[idx + 3] / 255;
+    const outA = srcA + dstA * (1 - srcA);
+    data[idx] = Math.round((r * srcA + data[idx] * dstA * (1 - srcA)) / outA);
+    data[idx + 1] = Math.round((g * srcA + data[idx + 1] * dstA * (1 - srcA)) / outA);
+    data[idx + 2] = Math.round((b * srcA + data[idx + 2] * dstA * (1 - srcA)) / outA);
+    data[idx + 3] = Math.round(outA * 255);
+}
+
+function isSkinSize(width: Maybe<number>, height: Maybe<number>): boolean {
+    return width === 64 && (height === 64 || height === 32);
+}
+
+function hasSkinHeaderSize(buffer: Buffer): boolean {
+    try {
+        const dimensions = imageSize(buffer);
+        return isSkinSize(dimensions.width, dimensions.height);
+    } catch (e) {
+        // not an image format image-size knows
+        return false;
+    }
+}
@@ -0,0 +1,203 @@
+import * as Sentry from "@sentry/node";
+import * as crypto from "crypto";
+import { v4 as randomUuid } from "uuid";
+import { WebhookDelivery } from "../database/schemas";
+import { ApiKey } from "../database/schemas/ApiKey";
+import { DeliveryStatus, IWebhookDeliveryDocument, WebhookEvent } from "../typings/db/IWebhookDeliveryDocument";
+import { ClientInfo } from "../typings/ClientInfo";
+import { GenerateOptions } from "../typings/GenerateOptions";
+import { MineSkinError } from "../typings";
+import { getConfig } from "../typings/Configs";
+import { SafeFetch } from "../generator/SafeFetch";
+import type { SavedSkin } from "../generator/Generator";
+import { Maybe, stripUuid } from "./index";
+import { debug, warn } from "./colors";
+
+const PROCESS_INTERVAL = 5000;
+const DELIVERIES_PER_RUN = 20;
+const DELIVERY_TIMEOUT = 10000;
+
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY = 30000;
+
+export class Webhooks {
+
+    protected static processing = false;
+    protected static processTimer: Maybe<NodeJS.Timeout>;
+
+    static async start(): Promise<void> {
+        const config = await getConfig();
+        this.processTimer = setInterval(() => Webhooks.processQueue(config.server), PROCESS_INTERVAL);
+    }
+
+    static async notifyGenerated(client: ClientInfo, options: GenerateOptions, skin: SavedSkin): Promise<void> {
+        if (!client.apiKeyId) {
+            return;
+        }
+        await this.queue(client, WebhookEvent.GENERATE_SUCCESS, {
+            breadcrumb: options.breadcrumbId,
+            skin: await skin.toResponseJson()
+        });
+    }
+
+    static async notifyFailed(client: ClientInfo, options: GenerateOptions, e: any): Promise<void> {
+        if (!client.apiKeyId) {
+            return;
+        }
+        let errorType = "Error";
+        let errorCode = "unknown";
+        let error = "An unexpected error occurred";
+        if (e instanceof MineSkinError) {
+            errorType = e.name;
+            errorCode = e.code;
+            error = e.msg ?? error;
+        }
+        await this.queue(client, WebhookEvent.GENERATE_FAILED, {
+            breadcrumb: options.breadcrumbId,
+            errorType,
+            errorCode,
+            error
+        });
+    }
+
+    protected static async queue(client: ClientInfo, event: WebhookEvent, data: any): Promise<void> {
+        const apiKey = await ApiKey.findById(client.apiKeyId).exec();
+        if (!apiKey) {
+            return;
+        }
+        const url = client.callbackUrl || apiKey.webhookUrl;
+        if (!url) {
+            return;
+        }
+        const config = await getConfig();
+        const now = new Date();
+        const delivery = new WebhookDelivery(<IWebhookDeliveryDocument>{
+            deliveryId: stripUuid(randomUuid()),
+            apiKey: apiKey.id,
+            server: config.server,
+            url: url,
+            event: event,
+            payload: JSON.stringify({
+                event: event,
+                timestamp: Math.round(now.getTime() / 1000),
+                ...data
+            }),
+            status: DeliveryStatus.PENDING,
+            attempts: 0,
+            createdAt: now,
+            nextAttemptAt: now
+        });
+        await delivery.save();
+        // first attempt right away, retries are handled by the queue
+        this.deliver(delivery).catch(e => Sentry.captureException(e));
+    }
+
+    protected static async processQueue(server: string): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+        try {
+            const deliveries = await WebhookDelivery.findDue(server, DELIVERIES_PER_RUN);
+            for (const delivery of deliveries) {
+                await this.deliver(delivery);
+            }
+        } catch (e) {
+            Sentry.captureException(e);
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    protected static async deliver(pending: IWebhookDeliveryDocument): Promise<void> {
+        // claim the attempt, so the queue and the first attempt after queueing can't both send it
+        const delivery = await WebhookDelivery.claimAttempt(pending, new Date(Date.now() + RETRY_BASE_DELAY * Math.pow(2, pending.attempts)));
+        if (!delivery) {
+            return;
+        }
+
+        const apiKey = await ApiKey.findById(delivery.apiKey).exec();
+        if (!apiKey) {
+            // key was deleted in the meantime
+            delivery.status = DeliveryStatus.FAILED;
+            delivery.nextAttemptAt = undefined;
+            delivery.lastError = "API key not found";
+            await delivery.save();
+            return;
+        }
+
+        const timestamp = `${ Math.round(Date.now() / 1000) }`;
+        try {
+            const response = await SafeFetch.request({
+                method: "POST",
+                url: delivery.url,
+                headers: {
+                    "Content-Type": "application/json",
+                    "X-MineSkin-Event": delivery.event,
+                    "X-MineSkin-Delivery": delivery.deliveryId,
+                    "X-MineSkin-Timestamp": timestamp,
+                    "X-MineSkin-Signature": this.sign(apiKey.secret, timestamp, delivery.payload)
+                },
+                data: delivery.payload,
+                timeout: DELIVERY_TIMEOUT
+            }, {
+                // the response body is never used
+                maxBytes: 0,
+                maxRedirects: 0
+            });
+            delivery.lastStatusCode = response.status;
+            if (response.status >= 200 && response.status < 300) {
+                delivery.status = DeliveryStatus.DELIVERED;
+                delivery.deliveredAt = new Date();
+                delivery.nextAttemptAt = undefined;
+                delivery.lastError = undefined;
+            } else {
+                delivery.lastError = "Unexpected status code " + response.status;
+            }
+        } catch (e) {
+            delivery.lastStatusCode = undefined;
+            delivery.lastError = e.message;
+        }
+
+        if (delivery.status !== DeliveryStatus.DELIVERED) {
+            console.warn(warn("Webhook delivery " + delivery.deliveryId + " failed (attempt " + delivery.attempts + "): " + delivery.lastError));
+            if (delivery.attempts >= MAX_ATTEMPTS) {
+                delivery.status = DeliveryStatus.FAILED;
+                delivery.nextAttemptAt = undefined;
+            }
+        } else {
+            console.log(debug("Webhook delivery " + delivery.deliveryId + " sent to " + delivery.url));
+        }
+        await delivery.save();
+    }
+
+    /**
+     * HMAC-SHA256 of <timestamp>.<payload>, keyed with the stored SHA-512 hex digest of the key's secret
+     */
+    static sign(secretHash: string, timestamp: string, payload: string): string {
+        return "sha256=" + crypto.createHmac("sha256", secretHash).update(`${ timestamp }.${ payload }`).digest("hex");
+    }
+
+    static toResponseJson(delivery: IWebhookDeliveryDocument): any {
+        return {
+            id: delivery.deliveryId,
+            url: delivery.url,
+            event: delivery.event,
+            status: delivery.status,
+            attempts: delivery.attempts,
+            createdAt: delivery.createdAt,
+            lastAttemptAt: delivery.lastAttemptAt,
+            nextAttemptAt: delivery.nextAttemptAt,
+            deliveredAt: delivery.deliveredAt,
+            lastStatusCode: delivery.lastStatusCode,
+            lastError: delivery.lastError
+        };
+    }
+
+    static end() {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+}
@@ -0,0 +1,59 @@
+import { IAccountDocument } from "../typings";
+import { AccessTokenSource } from "../typings/db/IAccountDocument";
+
+// errors older than this don't count as recent anymore
+export const RECENT_ERROR_WINDOW = 6 * 60 * 60; // 6 hours
+export const MAX_RECENT_ERRORS = 10;
+
+// accounts are never excluded by their score alone, they just get picked less
+const MIN_HEALTH = 0.01;
+
+const NEW_ACCOUNT_AGE = 24 * 60 * 60; // 1 day
+const TOKEN_EXPIRY_WINDOW = 60 * 60; // 1 hour
+
+/**
+ * Score between 0 and 1 of how likely the account is to generate without errors, used as its weight when selecting accounts.
+ * Combines the overall success rate, the current error streak, errors in the last few hours and how fresh the access token is.
+ */
+export function getHealthScore(account: IAccountDocument, time: number = Math.floor(Date.now() / 1000)): number {
+    // smoothed, so new accounts start at 0.5 instead of 0 or 1
+    const successRate = ((account.totalSuccessCounter || 0) + 1) / ((account.totalSuccessCounter || 0) + (account.totalErrorCounter || 0) + 2);
+    let score = 0.5 + successRate / 2;
+
+    score *= Math.pow(0.75, account.errorCounter || 0);
+
+    const recentErrors = (account.recentErrors || []).filter(e => time - e.time < RECENT_ERROR_WINDOW);
+    score *= Math.pow(0.9, recentErrors.length);
+
+    if (!account.accessToken || (account.accessTokenExpiration || 0) < time) {
+        // needs a new login/refresh before it can be used
+        score *= 0.6;
+    } else if (account.accessTokenExpiration - time < TOKEN_EXPIRY_WINDOW) {
+        score *= 0.8;
+    }
+    if (account.accessTokenSource === AccessTokenSource.LOGIN_MOJANG || account.accessTokenSource === AccessTokenSource.REFRESH_MOJANG || account.accessTokenSource === AccessTokenSource.USER_LOGIN_MOJANG) {
+        // mojang auth fails a lot more often than microsoft auth
+        score *= 0.8;
+    }
+
+    if (time - (account.timeAdded || 0) < NEW_ACCOUNT_AGE) {
+        score *= 0.8;
+    }
+
+    return Math.max(MIN_HEALTH, Math.min(1, score));
+}
+
+/**
+ * Picks a random index, weighted by the given weights
+ */
+export function weightedRandomIndex(weights: number[]): number {
+    const total = weights.reduce((a, b) => a + b, 0);
+    let r = Math.random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        r -= weights[i];
+        if (r < 0) {
+            return i;
+        }
+    }
+    return weights.length - 1;
+}
@@ -0,0 +1,125 @@
+import * as Jimp from "jimp";
+import * as fileType from "file-type";
+import imageSize from "image-size";
+import * as webp from "@cwasm/webp";
+import { MineSkinError } from "../typings";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// ancillary chunks that change how the pixels are decoded
+const KEPT_ANCILLARY_CHUNKS = ["tRNS"];
+
+const CONVERTIBLE_TYPES = ["image/gif", "image/bmp", "image/webp"];
+// largest "HD" skin that is scaled down, 16x the normal size
+const MAX_SCALE_FACTOR = 16;
+
+export interface NormalizedImage {
+    buffer: Buffer;
+    /** Description of what was changed, empty if the image was already fine **/
+    changes: string[];
+}
+
+/**
+ * Converts images to something the skin upload accepts:
+ * GIF/BMP/WebP are re-encoded as PNG, ancillary PNG chunks are removed and
+ * HD skins (exact multiples of 64x64 / 64x32) are scaled down using nearest-neighbour.
+ */
+export async function normalizeSkinImage(buffer: Buffer): Promise<NormalizedImage> {
+    const changes: string[] = [];
+
+    const type = await fileType.fromBuffer(buffer);
+    if (!type) {
+        throw new MineSkinError("invalid_image", "Failed to determine file type", 400);
+    }
+    if (type.mime !== "image/png" && !CONVERTIBLE_TYPES.includes(type.mime)) {
+        throw new MineSkinError("invalid_image", "Unsupported file type: " + type.mime, 400);
+    }
+
+    // check the size before decoding, so huge images are never loaded into memory
+    const dimensions = imageSize(buffer);
+    const width = dimensions.width || 0;
+    const height = dimensions.height || 0;
+    const factor = width / 64;
+    const needsResize = factor > 1;
+    if (needsResize) {
+        if (!Number.isInteger(factor) || factor > MAX_SCALE_FACTOR || (height !== 64 * factor && height !== 32 * factor)) {
+            throw new MineSkinError("invalid_image", "Invalid image dimensions. Must be a multiple of 64x32 or 64x64 (Were " + width + "x" + height + ")", 400);
+        }
+    }
+
+    if (type.mime !== "image/png" || needsResize) {
+        // Jimp can't decode WebP
+        const image = type.mime === "image/webp" ? decodeWebp(buffer) : await Jimp.read(buffer);
+        if (type.mime !== "image/png") {
+            changes.push(`converted ${ type.ext } to png`);
+        }
+        if (needsResize) {
+            image.resize(64, height / factor, Jimp.RESIZE_NEAREST_NEIGHBOR);
+            changes.push(`resized ${ width }x${ height } to ${ image.getWidth() }x${ image.getHeight() }`);
+        }
+        buffer = await image.getBufferAsync(Jimp.MIME_PNG);
+    }
+
+    const stripped = stripAncillaryChunks(buffer);
+    if (stripped.removed.length > 0) {
+        changes.push(`removed ${ stripped.removed.join(", ") } chunks`);
+    }
+
+    return {
+        buffer: stripped.buffer,
+        changes
+    };
+}
+
+function decodeWebp(buffer: Buffer): Jimp {
+    let decoded;
+    try {
+        decoded = webp.decode(buffer);
+    } catch (e) {
+        throw new MineSkinError("invalid_image", "Failed to decode WebP image", 400);
+    }
+    return new Jimp({
+        data: Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength),
+        width: decoded.width,
+        height: decoded.height
+    });
+}
+
+/**
+ * Removes metadata chunks (text, color profiles, timestamps, ...) from a PNG, keeping the image data untouched
+ */
+export function stripAncillaryChunks(buffer: Buffer): { buffer: Buffer, removed: string[] } {
+    if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+        throw new MineSkinError("invalid_image", "Invalid PNG signature", 400);
+    }
+    const kept: Buffer[] = [PNG_SIGNATURE];
+    const removed: string[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString("latin1", offset + 4, offset + 8);
+        const end = offset + 12 + length;
+        if (end > buffer.length) {
+            throw new MineSkinError("invalid_image", "Truncated PNG chunk " + type, 400);
+        }
+        // lowercase first letter = ancillary
+        const ancillary = (buffer[offset + 4] & 0x20) !== 0;
+        if (ancillary && !KEPT_ANCILLARY_CHUNKS.includes(type)) {
+            if (!removed.includes(type)) {
+                removed.push(type);
+            }
+        } else {
+            kept.push(buffer.subarray(offset, end));
+        }
+        offset = end;
+        if (type === "IEND") {
+            break;
+        }
+    }
+    if (removed.length === 0 && offset === buffer.length) {
+        return { buffer, removed };
+    }
+    return {
+        buffer: Buffer.concat(kept),
+        removed
+    };
+}
@@ -15,6 +15,7 @@ import { IApiKeyDocument } from "../typings/db/IApiKeyDocument";
 import { MineSkinError, MineSkinRequest } from "../typings";
 import { imageHash } from "@inventivetalent/imghash";
 import { ClientInfo } from "../typings/ClientInfo";
+import { ApiKey } from "../database/schemas/ApiKey";
 
 export function getIp(req: Request): string {
     return req.get('cf-connecting-ip') || req.get('x-forwarded-for') || req.get("x-real-ip") || req.connection.remoteAddress || req.ip;
@@ -116,6 +117,36 @@ export async function getAndValidateRequestApiKey(req: MineSkinRequest): Promise
     return undefined;
 }
 
+/**
+ * Looks up the API key for the key & secret in the request, responds with an error if either is invalid.
+ * The secret is only accepted in the body or the X-MineSkin-Secret header, so it doesn't end up in access logs.
+ */
+export async function getAndValidateApiKeyWithSecret(req: Request, res: Response): Promise<Maybe<IApiKeyDocument>> {
+    const key: string = req.body["key"] || req.query["key"];
+    if (!key) {
+        res.status(400).json({ error: "missing key" });
+        return undefined;
+    }
+    const secret: string = req.body["secret"] || req.headers["x-mineskin-secret"] as string;
+    if (!secret) {
+        res.status(400).json({ error: "missing secret" });
+        return undefined;
+    }
+
+    const apiKey = await ApiKey.findKey(Caching.cachedSha512(key));
+    if (!apiKey) {
+        res.status(400).json({ error: "invalid key" });
+        return undefined;
+    }
+
+    if (apiKey.secret !== Caching.cachedSha512(secret)) {
+        res.status(400).json({ error: "invalid secret" });
+        return undefined;
+    }
+
+    return apiKey;
+}
+
 
 export async function validateImage(req: Request, res: Response, file: string): Promise<boolean> {
     const stats = fs.statSync(file);
@@ -239,7 +270,17 @@ export function base64decode(str: string): string {
 }
 
 export function getHashFromMojangTextureUrl(url: string): Maybe<string> {
-    const res = /textures\.minecraft\.net\/texture\/([0-9a-z]+)/i.exec(url);
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch (e) {
+        return undefined;
+    }
+    // only actual mojang urls, the hash is trusted to identify the texture
+    if ((parsed.protocol !== "http:" && parsed.protocol !== "https:") || parsed.hostname !== "textures.minecraft.net" || parsed.port) {
+        return undefined;
+    }
+    const res = /^\/texture\/([0-9a-f]+)$/i.exec(parsed.pathname);
     if (!res || res.length <= 1) return undefined;
     return res[1];
 }
@@ -328,9 +369,9 @@ export const corsWithCredentialsMiddleware = (req: Request, res: Response, next:
     res.header('Access-Control-Allow-Origin', 'https://mineskin.org');
     res.header("Access-Control-Allow-Credentials", "true");
     if (req.method === 'OPTIONS') {
-        res.header("Access-Control-Allow-Methods", "POST, GET, OPTIONS, DELETE, PUT");
-        res.header("Access-Control-Allow-Headers", "X-Requested-With, Accept, Content-Type, Origin, Authorization, Cookie");
-        res.header("Access-Control-Request-Headers", "X-Requested-With, Accept, Content-Type, Origin, Authorization, Cookie");
+        res.header("Access-Control-Allow-Methods", "POST, GET, OPTIONS, DELETE, PUT, PATCH");
+        res.header("Access-Control-Allow-Headers", "X-Requested-With, Accept, Content-Type, Origin, Authorization, Cookie, X-MineSkin-Secret");
+        res.header("Access-Control-Request-Headers", "X-Requested-With, Accept, Content-Type, Origin, Authorization, Cookie, X-MineSkin-Secret");
         return res.sendStatus(200);
     } else {
         return next();
@@ -0,0 +1,68 @@
+import * as Jimp from "jimp";
+import * as crypto from "crypto";
+
+// The perceptual hash is split into parts that are indexed on their own.
+// Two hashes which differ in at most PHASH_PARTS - 1 bits always have one identical part,
+// so candidates for a similarity lookup can be found with an exact match on any of the parts.
+export const PHASH_PARTS = 4;
+export const MAX_PHASH_DISTANCE = PHASH_PARTS - 1;
+
+export interface SkinHashes {
+    /** 64 bit perceptual hash, hex **/
+    phash: string;
+    /** The perceptual hash split into prefixed parts, e.g. 2:ab01 **/
+    phashParts: string[];
+    /** SHA-1 of the pixel data, with the color of fully transparent pixels removed **/
+    canonicalHash: string;
+}
+
+export async function getSkinHashes(buffer: Buffer): Promise<SkinHashes> {
+    const image = await Jimp.read(buffer);
+    clearTransparentPixels(image);
+    const phash = image.hash(16);
+    const canonicalHash = crypto.createHash("sha1")
+        .update(`${ image.getWidth() }x${ image.getHeight() }`)
+        .update(image.bitmap.data)
+        .digest("hex");
+    return {
+        phash,
+        phashParts: splitPHash(phash),
+        canonicalHash
+    };
+}
+
+export function splitPHash(phash: string): string[] {
+    const partLength = phash.length / PHASH_PARTS;
+    const parts: string[] = [];
+    for (let i = 0; i < PHASH_PARTS; i++) {
+        parts.push(`${ i }:${ phash.substr(i * partLength, partLength) }`);
+    }
+    return parts;
+}
+
+/**
+ * Number of bits that are different between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) {
+        return Number.MAX_SAFE_INTEGER;
+    }
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (xor) {
+            distance += xor & 1;
+            xor >>= 1;
+        }
+    }
+    return distance;
+}
+
+// invisible pixels can have any color, which shouldn't make the image count as different
+function clearTransparentPixels(image: Jimp): void {
+    image.scan(0, 0, image.getWidth(), image.getHeight(), function (x, y, idx) {
+        if (this.bitmap.data[idx + 3] === 0) {
+            this.bitmap.data.writeUInt32BE(0, idx);
+        }
+    });
+}
@@ -0,0 +1,169 @@
+import * as Jimp from "jimp";
+import { SkinVariant } from "../typings/db/ISkinDocument";
+
+/**
+ * A cuboid in the skin texture, laid out the same way as Minecraft's model boxes
+ */
+export interface TextureBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    depth: number;
+}
+
+export interface TextureRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SkinPart {
+    base: TextureBox;
+    overlay: TextureBox;
+}
+
+export interface SkinParts {
+    head: SkinPart;
+    body: SkinPart;
+    rightArm: SkinPart;
+    leftArm: SkinPart;
+    rightLeg: SkinPart;
+    leftLeg: SkinPart;
+}
+
+export type BoxFace = "top" | "bottom" | "right" | "front" | "left" | "back";
+
+export function getFace(box: TextureBox, face: BoxFace): TextureRect {
+    const { x, y, width: w, height: h, depth: d } = box;
+    switch (face) {
+        case "top":
+            return { x: x + d, y: y, width: w, height: d };
+        case "bottom":
+            return { x: x + d + w, y: y, width: w, height: d };
+        case "right":
+            return { x: x, y: y + d, width: d, height: h };
+        case "front":
+            return { x: x + d, y: y + d, width: w, height: h };
+        case "left":
+            return { x: x + d + w, y: y + d, width: d, height: h };
+        case "back":
+            return { x: x + d + w + d, y: y + d, width: w, height: h };
+    }
+}
+
+export function getSkinParts(variant: SkinVariant): SkinParts {
+    const armWidth = variant === SkinVariant.SLIM ? 3 : 4;
+    const box = (x: number, y: number, width: number, height: number, depth: number): TextureBox => {
+        return { x, y, width, height, depth };
+    };
+    return {
+        head: { base: box(0, 0, 8, 8, 8), overlay: box(32, 0, 8, 8, 8) },
+        body: { base: box(16, 16, 8, 12, 4), overlay: box(16, 32, 8, 12, 4) },
+        rightArm: { base: box(40, 16, armWidth, 12, 4), overlay: box(40, 32, armWidth, 12, 4) },
+        leftArm: { base: box(32, 48, armWidth, 12, 4), overlay: box(48, 48, armWidth, 12, 4) },
+        rightLeg: { base: box(0, 16, 4, 12, 4), overlay: box(0, 32, 4, 12, 4) },
+        leftLeg: { base: box(16, 48, 4, 12, 4), overlay: box(0, 48, 4, 12, 4) }
+    };
+}
+
+export function isLegacySkin(image: Jimp): boolean {
+    return image.getHeight() === 32;
+}
+
+// https://github.com/InventivetalentDev/MineRender/blob/master/src/skin/index.js#L146
+export function detectSkinVariant(image: Jimp): SkinVariant {
+    if (isLegacySkin(image)) {
+        return SkinVariant.CLASSIC;
+    }
+    let allTransparent = true;
+    image.scan(54, 20, 2, 12, function (x, y, idx) {
+        let a = this.bitmap.data[idx + 3];
+        if (a === 255) {
+            allTransparent = false;
+        }
+    });
+    return allTransparent ? SkinVariant.SLIM : SkinVariant.CLASSIC;
+}
+
+// [fromX, fromY, toX, toY, width, height], all mirrored horizontally
+const LEGACY_COPIES: number[][] = [
+    // left leg
+    [4, 16, 20, 48, 4, 4],
+    [8, 16, 24, 48, 4, 4],
+    [0, 20, 24, 52, 4, 12],
+    [4, 20, 20, 52, 4, 12],
+    [8, 20, 16, 52, 4, 12],
+    [12, 20, 28, 52, 4, 12],
+    // left arm
+    [44, 16, 36, 48, 4, 4],
+    [48, 16, 40, 48, 4, 4],
+    [40, 20, 40, 52, 4, 12],
+    [44, 20, 36, 52, 4, 12],
+    [48, 20, 32, 52, 4, 12],
+    [52, 20, 44, 52, 4, 12]
+];
+
+/**
+ * Converts a legacy 64x32 skin to the 64x64 layout, the same way the client does it.
+ * The left arm & leg are mirrored copies of the right ones.
+ */
+export function upgradeLegacySkin(image: Jimp): Jimp {
+    if (!isLegacySkin(image)) {
+        return image;
+    }
+    const upgraded = new Jimp(64, 64, 0x00000000);
+    copyRegion(image, upgraded, 0, 0, 0, 0, 64, 32, false);
+    for (const [fromX, fromY, toX, toY, width, height] of LEGACY_COPIES) {
+        copyRegion(image, upgraded, fromX, fromY, toX, toY, width, height, true);
+    }
+    return upgraded;
+}
+
+/**
+ * Makes the base layer opaque and drops fully opaque hat layers of legacy skins, matching what the client renders.
+ * Expects legacy skins to be upgraded already.
+ */
+export function applySkinAlpha(image: Jimp, legacy: boolean): void {
+    setOpaque(image, 0, 0, 32, 16);
+    if (legacy) {
+        notchTransparencyHack(image, 32, 0, 32, 32);
+    }
+    setOpaque(image, 0, 16, 64, 16);
+    setOpaque(image, 16, 48, 32, 16);
+}
+
+/**
+ * Copies pixels without blending
+ */
+export function copyRegion(src: Jimp, dst: Jimp, fromX: number, fromY: number, toX: number, toY: number, width: number, height: number, mirror: boolean): void {
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const srcIdx = src.getPixelIndex(fromX + (mirror ? width - 1 - x : x), fromY + y);
+            const dstIdx = dst.getPixelIndex(toX + x, toY + y);
+            src.bitmap.data.copy(dst.bitmap.data, dstIdx, srcIdx, srcIdx + 4);
+        }
+    }
+}
+
+function setOpaque(image: Jimp, x: number, y: number, width: number, height: number): void {
+    image.scan(x, y, width, height, function (px, py, idx) {
+        this.bitmap.data[idx + 3] = 255;
+    });
+}
+
+function notchTransparencyHack(image: Jimp, x: number, y: number, width: number, height: number): void {
+    let hasTransparency = false;
+    image.scan(x, y, width, height, function (px, py, idx) {
+        if (this.bitmap.data[idx + 3] < 128) {
+            hasTransparency = true;
+        }
+    });
+    if (hasTransparency) {
+        return;
+    }
+    image.scan(x, y, width, height, function (px, py, idx) {
+        this.bitmap.data[idx + 3] = 0;
+    });
+}
@@ -0,0 +1,131 @@
+import * as crypto from "crypto";
+
+// the real config needs the git config
+const mockConfig: any = {
+    crypto: {
+        algorithm: "aes-256-cbc",
+        key: "0123456789abcdef0123456789abcdef"
+    }
+};
+jest.mock("../src/typings/Configs", () => ({
+    getConfig: async () => mockConfig
+}));
+
+import { Encryption } from "../src/util/Encryption";
+import { ConfigKeyProvider, KeyProviders, LEGACY_KEY_ID, LocalKmsKeyProvider } from "../src/util/KeyProviders";
+
+const KEY = crypto.randomBytes(32);
+
+function encryptCbc(key: Buffer, text: string): { iv: string, encrypted: string } {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
+    return {
+        iv: iv.toString("hex"),
+        encrypted: Buffer.concat([cipher.update(text, "utf8"), cipher.final()]).toString("hex")
+    };
+}
+
+function replaceAt(str: string, index: number, char: string): string {
+    return str.substr(0, index) + char + str.substr(index + 1);
+}
+
+describe("Encryption", () => {
+
+    beforeEach(() => {
+        mockConfig.crypto.currentKey = "k1";
+        mockConfig.crypto.keys = {
+            k1: KEY.toString("hex"),
+            // same key, so only the authenticated key id differs
+            k2: KEY.toString("hex")
+        };
+        KeyProviders.use(new ConfigKeyProvider(mockConfig.crypto));
+    });
+
+    it("round-trips with AES-256-GCM and the current key", async () => {
+        KeyProviders.use(new LocalKmsKeyProvider());
+        const encrypted = await Encryption.encrypt("hunter2");
+
+        expect(encrypted.startsWith("v3:k1:")).toBe(true);
+        expect(Encryption.isVersioned(encrypted)).toBe(true);
+        expect(Encryption.getKeyId(encrypted)).toBe("k1");
+        expect(await Encryption.decrypt(encrypted)).toBe("hunter2");
+        expect(await Encryption.needsReEncryption(encrypted)).toBe(false);
+    });
+
+    it("re-encrypts with a rotated key", async () => {
+        KeyProviders.use(new LocalKmsKeyProvider());
+        const encrypted = await Encryption.encrypt("hunter2");
+        mockConfig.crypto.currentKey = "k2";
+
+        expect(await Encryption.needsReEncryption(encrypted)).toBe(true);
+        const reEncrypted = await Encryption.reEncrypt(encrypted);
+        expect(reEncrypted.startsWith("v3:k2:")).toBe(true);
+        expect(await Encryption.decrypt(reEncrypted)).toBe("hunter2");
+    });
+
+    it("rejects modified ciphertexts", async () => {
+        const parts = (await Encryption.encrypt("hunter2")).split(":");
+        const flip = (hex: string) => replaceAt(hex, 0, hex[0] === "0" ? "1" : "0");
+
+        const ciphertext = [...parts];
+        ciphertext[4] = flip(ciphertext[4]);
+        await expect(Encryption.decrypt(ciphertext.join(":"))).rejects.toThrow();
+
+        const tag = [...parts];
+        tag[3] = flip(tag[3]);
+        await expect(Encryption.decrypt(tag.join(":"))).rejects.toThrow();
+
+        const iv = [...parts];
+        iv[2] = flip(iv[2]);
+        await expect(Encryption.decrypt(iv.join(":"))).rejects.toThrow();
+    });
+
+    it("rejects a changed key id, even if it's the same key", async () => {
+        const parts = (await Encryption.encrypt("hunter2")).split(":");
+        parts[1] = "k2";
+        await expect(Encryption.decrypt(parts.join(":"))).rejects.toThrow();
+    });
+
+    it("decrypts v2 ciphertexts", async () => {
+        const { iv, encrypted } = encryptCbc(KEY, "hunter2");
+        const v2 = ["v2", "k1", iv, encrypted].join(":");
+
+        expect(Encryption.isVersioned(v2)).toBe(true);
+        expect(await Encryption.decrypt(v2)).toBe("hunter2");
+        expect(await Encryption.needsReEncryption(v2)).toBe(true);
+    });
+
+    it("decrypts legacy ciphertexts with the legacy key", async () => {
+        const { iv, encrypted } = encryptCbc(Buffer.from(mockConfig.crypto.key), "hunter2");
+        const legacy = Buffer.from(iv + ":" + encrypted).toString("base64");
+
+        expect(Encryption.isVersioned(legacy)).toBe(false);
+        expect(Encryption.getKeyId(legacy)).toBe(LEGACY_KEY_ID);
+        expect(await Encryption.decrypt(legacy)).toBe("hunter2");
+    });
+
+    it("keeps plain text tokens from before they were encrypted", async () => {
+        expect(await Encryption.decryptToken("plain-token")).toBe("plain-token");
+        expect(await Encryption.encryptToken("")).toBe("");
+        expect(await Encryption.decryptToken(await Encryption.encryptToken("token"))).toBe("token");
+    });
+
+});
+
+describe("KeyProviders", () => {
+
+    const env = process.env.NODE_ENV;
+
+    afterEach(() => {
+        process.env.NODE_ENV = env;
+    });
+
+    it("only allows the local provider in tests", () => {
+        process.env.NODE_ENV = "production";
+        expect(() => KeyProviders["create"]({ ...mockConfig.crypto, keyProvider: "local" })).toThrow("only available in tests");
+
+        process.env.NODE_ENV = "test";
+        expect(KeyProviders["create"]({ ...mockConfig.crypto, keyProvider: "local" })).toBeInstanceOf(LocalKmsKeyProvider);
+    });
+
+});
@@ -0,0 +1,81 @@
+import { connect, disconnect } from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+
+// the real config & metrics need the git config, the generator only provides the account delay here
+jest.mock("../src/typings/Configs", () => ({
+    getConfig: async () => ({ server: "test" })
+}));
+jest.mock("../src/util/metrics", () => ({
+    MineSkinMetrics: {
+        get: async () => ({
+            config: { server: "test", errorThreshold: 10 },
+            metrics: { influx: { writePoints: jest.fn() } }
+        })
+    }
+}));
+jest.mock("../src/generator/Generator", () => ({
+    MIN_ACCOUNT_DELAY: 80
+}));
+
+import { Account } from "../src/database/schemas";
+
+const ACCOUNTS = 20;
+const REQUESTS = 30;
+
+describe("Account.findUsable", () => {
+
+    let mongo: MongoMemoryServer;
+
+    beforeAll(async () => {
+        mongo = await MongoMemoryServer.create();
+        await connect(mongo.getUri(), {
+            useNewUrlParser: true,
+            useUnifiedTopology: true,
+            useFindAndModify: false
+        });
+    });
+
+    afterAll(async () => {
+        await disconnect();
+        await mongo?.stop();
+    });
+
+    beforeEach(async () => {
+        await Account.deleteMany({}).exec();
+        const time = Math.floor(Date.now() / 1000);
+        for (let i = 1; i <= ACCOUNTS; i++) {
+            await Account.create({
+                id: i,
+                uuid: `account${ i }`,
+                enabled: true,
+                requestServer: i % 2 === 0 ? "test" : "default",
+                timeAdded: time - 24 * 60 * 60,
+                lastUsed: time - 60 * 60,
+                lastSelected: time - 60 * 60,
+                errorCounter: 0
+            });
+        }
+    });
+
+    it("doesn't return the same account to parallel requests", async () => {
+        const selected = await Promise.all([...Array(REQUESTS)].map(() => Account.findUsable()));
+        const ids = selected.filter(a => !!a).map(a => a!.id);
+
+        expect(ids.length).toBe(ACCOUNTS);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it("locks the claimed accounts", async () => {
+        const time = Math.floor(Date.now() / 1000);
+        const selected = await Promise.all([...Array(5)].map(() => Account.findUsable()));
+
+        for (const account of selected) {
+            expect(account).toBeDefined();
+            const stored = await Account.findOne({ _id: account!._id }).exec();
+            expect(stored!.lockOwner).toBe("test");
+            expect(stored!.lockExpiresAt).toBeGreaterThan(time);
+            expect(stored!.lastSelected).toBeGreaterThanOrEqual(time);
+        }
+    });
+
+});
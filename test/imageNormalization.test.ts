@@ -0,0 +1,37 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as Jimp from "jimp";
+import { normalizeSkinImage } from "../src/util/imageNormalization";
+
+const IMAGES = path.join(__dirname, "images");
+
+describe("normalizeSkinImage", () => {
+
+    it("converts WebP to PNG", async () => {
+        const png = await Jimp.read(path.join(IMAGES, "a.png"));
+        const normalized = await normalizeSkinImage(fs.readFileSync(path.join(IMAGES, "a.webp")));
+
+        expect(normalized.changes).toContain("converted webp to png");
+        const converted = await Jimp.read(normalized.buffer);
+        expect(converted.getMIME()).toBe(Jimp.MIME_PNG);
+        expect(converted.getWidth()).toBe(64);
+        expect(converted.getHeight()).toBe(64);
+        // lossless, so the pixels are unchanged
+        expect(converted.bitmap.data.equals(png.bitmap.data)).toBe(true);
+    });
+
+    it("converts and scales down HD WebP skins", async () => {
+        const png = await Jimp.read(path.join(IMAGES, "a.png"));
+        const normalized = await normalizeSkinImage(fs.readFileSync(path.join(IMAGES, "a-hd.webp")));
+
+        expect(normalized.changes).toEqual(["converted webp to png", "resized 128x128 to 64x64"]);
+        expect((await Jimp.read(normalized.buffer)).bitmap.data.equals(png.bitmap.data)).toBe(true);
+    });
+
+    it("rejects broken WebP images", async () => {
+        const broken = Buffer.from(fs.readFileSync(path.join(IMAGES, "a.webp")));
+        broken.fill(0, 40);
+        await expect(normalizeSkinImage(broken)).rejects.toThrow("Failed to decode WebP image");
+    });
+
+});
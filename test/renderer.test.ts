@@ -0,0 +1,36 @@
+// the real config needs the git config
+jest.mock("../src/typings/Configs", () => ({
+    getConfig: async () => ({ server: "test" })
+}));
+
+import * as Jimp from "jimp";
+import imageSize from "image-size";
+import { Renderer, RenderType } from "../src/util/Renderer";
+
+async function png(width: number, height: number): Promise<Buffer> {
+    return new Jimp(width, height, 0xff0000ff).getBufferAsync(Jimp.MIME_PNG);
+}
+
+describe("Renderer.render", () => {
+
+    const options = Renderer.parseOptions("scale=1");
+
+    it("renders 64x64 and 64x32 skins", async () => {
+        expect(imageSize(await Renderer.render(await png(64, 64), RenderType.FACE, options))).toMatchObject({ width: 8, height: 8 });
+        expect(imageSize(await Renderer.render(await png(64, 32), RenderType.HEAD, options)).width).toBeGreaterThan(0);
+    });
+
+    it("rejects other dimensions", async () => {
+        await expect(Renderer.render(await png(128, 128), RenderType.FACE, options)).rejects.toThrow("Invalid skin dimensions");
+        await expect(Renderer.render(Buffer.from("not an image"), RenderType.FACE, options)).rejects.toThrow("Invalid skin dimensions");
+    });
+
+    it("checks the header before decoding", async () => {
+        const bomb = await png(64, 64);
+        // IHDR claims 20000x20000, decoding would fail on the checksum if it got that far
+        bomb.writeUInt32BE(20000, 16);
+        bomb.writeUInt32BE(20000, 20);
+        await expect(Renderer.render(bomb, RenderType.FACE, options)).rejects.toThrow("Invalid skin dimensions");
+    });
+
+});
@@ -0,0 +1,30 @@
+// the real config needs the git config
+jest.mock("../src/typings/Configs", () => ({
+    getConfig: async () => ({ server: "test" })
+}));
+
+import { getHashFromMojangTextureUrl } from "../src/util";
+
+const HASH = "1a4af718455d4aab528e7a61f86fa25e6a369d1768dcb13f7df319a713eb810b";
+
+describe("getHashFromMojangTextureUrl", () => {
+
+    it("returns the hash of mojang texture urls", () => {
+        expect(getHashFromMojangTextureUrl("http://textures.minecraft.net/texture/" + HASH)).toBe(HASH);
+        expect(getHashFromMojangTextureUrl("https://textures.minecraft.net/texture/" + HASH)).toBe(HASH);
+    });
+
+    it("ignores other hosts that contain a texture url", () => {
+        expect(getHashFromMojangTextureUrl("https://evil.example/textures.minecraft.net/texture/" + HASH)).toBeUndefined();
+        expect(getHashFromMojangTextureUrl("https://textures.minecraft.net.evil.example/texture/" + HASH)).toBeUndefined();
+        expect(getHashFromMojangTextureUrl("https://evil.example/?u=textures.minecraft.net/texture/" + HASH)).toBeUndefined();
+    });
+
+    it("ignores other paths and ports", () => {
+        expect(getHashFromMojangTextureUrl("https://textures.minecraft.net/texture/" + HASH + "/other")).toBeUndefined();
+        expect(getHashFromMojangTextureUrl("https://textures.minecraft.net/other/texture/" + HASH)).toBeUndefined();
+        expect(getHashFromMojangTextureUrl("https://textures.minecraft.net:8080/texture/" + HASH)).toBeUndefined();
+        expect(getHashFromMojangTextureUrl("not a url")).toBeUndefined();
+    });
+
+});